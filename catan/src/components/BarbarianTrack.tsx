@@ -0,0 +1,83 @@
+import { Swords } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { BARBARIAN_TRACK_LENGTH, BarbarianAttack, KNIGHTS_PER_PLAYER } from '@/lib/game/knights';
+import { Player } from '@/lib/game/players';
+
+interface BarbarianTrackProps {
+  position: number;
+  attacks: BarbarianAttack[];
+  // Knights on the board per player
+  knights: number[];
+  players: Player[];
+  currentPlayer: number;
+  knightMode: boolean;
+  onToggleKnightMode: () => void;
+}
+
+// Cities & Knights - the approaching ship and the island's defense
+export const BarbarianTrack = ({
+  position,
+  attacks,
+  knights,
+  players,
+  currentPlayer,
+  knightMode,
+  onToggleKnightMode
+}: BarbarianTrackProps) => {
+  const strength = attacks.length + 1;
+  const defense = knights.reduce((sum, count) => sum + count, 0);
+  const lastAttack = attacks[attacks.length - 1];
+  const canPlace = knights[currentPlayer] < KNIGHTS_PER_PLAYER;
+
+  return (
+    <Card className="bg-card/80 backdrop-blur-sm border-border/50 shadow-medieval">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg text-primary flex items-center justify-between">
+          Barbarians
+          <span className="text-xs font-normal text-muted-foreground">{position}/{BARBARIAN_TRACK_LENGTH}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {/* Ship sailing towards the island, one step per piece */}
+        <div className="flex items-center gap-0.5">
+          {Array.from({ length: BARBARIAN_TRACK_LENGTH }, (_, i) => (
+            <div
+              key={i}
+              className={`flex-1 h-5 rounded text-center text-xs leading-5 ${i < position ? 'bg-destructive/30' : 'bg-muted'}`}
+            >
+              {i === position && '⛵'}
+            </div>
+          ))}
+          <div className="w-6 text-center">🏝️</div>
+        </div>
+
+        <div className="flex justify-between text-xs">
+          <span className="text-muted-foreground">Next attack</span>
+          <span className={`font-semibold ${defense >= strength ? 'text-primary' : 'text-destructive'}`}>
+            {strength} ships vs {defense} knight{defense === 1 ? '' : 's'}
+          </span>
+        </div>
+
+        {lastAttack && (
+          <div className={`text-xs font-medium ${lastAttack.defended ? 'text-primary' : 'text-destructive'}`}>
+            {lastAttack.defended
+              ? `Attack ${attacks.length} repelled${lastAttack.defenders.length > 0 ? ` - ${players[lastAttack.defenders[0]]?.name} is Defender of Catan` : ''}`
+              : `Attack ${attacks.length} lost - ${lastAttack.pillaged.map(player => players[player]?.name).join(', ')} pillaged`}
+          </div>
+        )}
+
+        <Button
+          variant={knightMode ? 'medieval' : 'outline'}
+          size="sm"
+          className="w-full flex items-center gap-1"
+          disabled={!canPlace && !knightMode}
+          onClick={onToggleKnightMode}
+        >
+          <Swords className="w-4 h-4" />
+          {knightMode ? 'Click a hex for your knight' : `Place Knight (${knights[currentPlayer] ?? 0}/${KNIGHTS_PER_PLAYER})`}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,93 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { BoardAnalysis } from '@/lib/game/analysis';
+import { NUMBER_RULE_LABELS, NumberRule } from '@/lib/game/numbers';
+import { RESOURCE_ICONS } from '@/lib/game/hex';
+
+interface BoardAnalysisPanelProps {
+  analysis: BoardAnalysis;
+  // Mode rules no number layout could satisfy on this island
+  unmetRules?: NumberRule[];
+}
+
+const GRADE_COLORS = {
+  A: 'bg-green-600',
+  B: 'bg-lime-600',
+  C: 'bg-yellow-600',
+  D: 'bg-red-600'
+};
+
+// End-of-game report on how fair the number layout turned out
+export const BoardAnalysisPanel = ({ analysis, unmetRules = [] }: BoardAnalysisPanelProps) => {
+  const mostPips = Math.max(1, ...Object.values(analysis.pipsByResource));
+
+  return (
+    <Card className="bg-card/80 backdrop-blur-sm border-border/50 shadow-medieval">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg text-primary flex items-center justify-between">
+          Board Quality
+          <Badge className={`${GRADE_COLORS[analysis.grade]} text-white`}>
+            {analysis.grade} • {analysis.score}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {/* Pips per resource */}
+        <div className="space-y-1">
+          {Object.entries(analysis.pipsByResource).map(([resource, pips]) => (
+            <div key={resource} className="flex items-center gap-2 text-xs">
+              <span className="w-5 text-center">{RESOURCE_ICONS[resource as keyof typeof RESOURCE_ICONS]}</span>
+              <div className="flex-1 h-2 rounded bg-muted overflow-hidden">
+                <div className="h-full bg-primary/70" style={{ width: `${(pips / mostPips) * 100}%` }} />
+              </div>
+              <span className="w-6 text-right text-foreground font-medium">{pips}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 text-center text-xs">
+          <div>
+            <div className="text-lg font-bold text-foreground">{analysis.redPairs}</div>
+            <div className="text-muted-foreground">6/8 touching</div>
+          </div>
+          <div>
+            <div className="text-lg font-bold text-foreground">{analysis.sameNumberPairs}</div>
+            <div className="text-muted-foreground">Same number</div>
+          </div>
+          <div>
+            <div className="text-lg font-bold text-foreground">{analysis.bestVertex?.pips ?? 0}</div>
+            <div className="text-muted-foreground">Best corner</div>
+          </div>
+        </div>
+
+        {/* Rules the solver had to give up */}
+        {unmetRules.length > 0 && (
+          <div className="rounded-lg border border-destructive/40 p-2 text-xs space-y-1">
+            <div className="text-destructive font-medium">No layout fits every number rule on this island</div>
+            {unmetRules.map(rule => (
+              <div key={rule} className="text-muted-foreground">✗ {NUMBER_RULE_LABELS[rule]}</div>
+            ))}
+          </div>
+        )}
+
+        {/* Problems found */}
+        {analysis.issues.length > 0 ? (
+          <div className="space-y-1 pt-2 border-t border-border/20">
+            {analysis.issues.map(issue => (
+              <div
+                key={issue.id}
+                className={`text-xs ${issue.severity === 'warning' ? 'text-destructive' : 'text-muted-foreground'}`}
+              >
+                {issue.severity === 'warning' ? '⚠️' : 'ℹ️'} {issue.message}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-xs text-center text-muted-foreground pt-2 border-t border-border/20">
+            No layout problems found
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
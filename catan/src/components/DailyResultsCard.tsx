@@ -0,0 +1,66 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { DailyResult } from '@/lib/game/daily';
+
+interface DailyResultsCardProps {
+  today: DailyResult;
+  history: DailyResult[];
+}
+
+export const DailyResultsCard = ({ today, history }: DailyResultsCardProps) => {
+  const pastResults = history.filter(r => r.date !== today.date);
+  const bestPast = pastResults.length > 0 ? Math.max(...pastResults.map(r => r.score)) : null;
+  const averagePast = pastResults.length > 0
+    ? pastResults.reduce((sum, r) => sum + r.score, 0) / pastResults.length
+    : null;
+  const rank = history.filter(r => r.score > today.score).length + 1;
+
+  return (
+    <Card className="bg-card/80 backdrop-blur-sm border-border/50 shadow-medieval">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg text-primary flex items-center justify-between">
+          Daily Island
+          <Badge variant="secondary" className="font-mono">{today.date}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div>
+            <div className="text-2xl font-bold text-foreground">{today.score}</div>
+            <div className="text-xs text-muted-foreground">Today</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold text-foreground">{bestPast ?? '–'}</div>
+            <div className="text-xs text-muted-foreground">Best Before</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold text-foreground">
+              {averagePast !== null ? averagePast.toFixed(1) : '–'}
+            </div>
+            <div className="text-xs text-muted-foreground">Average</div>
+          </div>
+        </div>
+
+        <div className="text-xs text-center text-muted-foreground">
+          {today.toppedOut && 'Topped out before the island was finished. '}
+          {pastResults.length === 0
+            ? 'Your first daily island - come back tomorrow!'
+            : `Rank #${rank} of ${history.length} days played`}
+        </div>
+
+        {pastResults.length > 0 && (
+          <div className="space-y-1 pt-2 border-t border-border/20">
+            {pastResults.slice(0, 7).map(result => (
+              <div key={result.date} className="flex justify-between text-xs">
+                <span className="font-mono text-muted-foreground">{result.date}</span>
+                <span className="text-foreground font-medium">
+                  {result.score}{result.toppedOut && <span className="text-muted-foreground"> (topped out)</span>}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
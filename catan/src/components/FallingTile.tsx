@@ -1,10 +1,14 @@
 import { TerrainType } from './GameBoard';
 
-interface FallingTileProps {
+export interface FallingCell {
   x: number;
   y: number;
   terrain: TerrainType;
-  rotation: number;
+}
+
+interface FallingTileProps {
+  // First cell is the pivot of the piece
+  cells: FallingCell[];
 }
 
 const TERRAIN_COLORS = {
@@ -29,11 +33,12 @@ const TERRAIN_PATTERNS = {
   gold: '💰'
 };
 
-export const FallingTile = ({ x, y, terrain, rotation }: FallingTileProps) => {
+export const FallingTile = ({ cells }: FallingTileProps) => {
   const hexSize = 30;
+  const pivot = cells[0];
   
   // Generate hexagon path
-  const hexPath = () => {
+  const hexPath = (x: number, y: number) => {
     const points = [];
     for (let i = 0; i < 6; i++) {
       const angle = (Math.PI / 3) * i - Math.PI / 6; // Rotate for flat-top hex
@@ -44,34 +49,15 @@ export const FallingTile = ({ x, y, terrain, rotation }: FallingTileProps) => {
     return `M ${points.join(' L ')} Z`;
   };
 
+  if (!pivot) return null;
+
   return (
     <g 
       className="animate-bounce"
       style={{ 
-        transform: `rotate(${rotation}deg)`,
-        transformOrigin: `${x}px ${y}px`,
         animation: 'pulse 2s cubic-bezier(0.4, 0, 0.6, 1) infinite'
       }}
     >
-      {/* Drop shadow for floating effect */}
-      <path
-        d={hexPath()}
-        fill="black"
-        opacity="0.3"
-        transform="translate(3, 3)"
-        className="animate-pulse"
-      />
-      
-      {/* Glowing outline for falling tile */}
-      <path
-        d={hexPath()}
-        fill="none"
-        stroke="#ffd700"
-        strokeWidth="4"
-        opacity="0.9"
-        filter="url(#glow)"
-      />
-      
       {/* Define glow filter */}
       <defs>
         <filter id="glow">
@@ -82,35 +68,58 @@ export const FallingTile = ({ x, y, terrain, rotation }: FallingTileProps) => {
           </feMerge>
         </filter>
       </defs>
+
+      {cells.map(({ x, y, terrain }, index) => (
+        <g key={index}>
+          {/* Drop shadow for floating effect */}
+          <path
+            d={hexPath(x, y)}
+            fill="black"
+            opacity="0.3"
+            transform="translate(3, 3)"
+            className="animate-pulse"
+          />
+          
+          {/* Glowing outline for falling tile */}
+          <path
+            d={hexPath(x, y)}
+            fill="none"
+            stroke="#ffd700"
+            strokeWidth="4"
+            opacity="0.9"
+            filter="url(#glow)"
+          />
+          
+          {/* Hex background */}
+          <path
+            d={hexPath(x, y)}
+            fill={TERRAIN_COLORS[terrain]}
+            stroke="#4a3a28"
+            strokeWidth="2"
+            className="drop-shadow-lg"
+          />
+          
+          {/* Terrain pattern/icon */}
+          <text
+            x={x}
+            y={y + 2}
+            textAnchor="middle"
+            dominantBaseline="middle"
+            fontSize="18"
+            className="pointer-events-none select-none filter drop-shadow-md"
+            fill="white"
+            stroke="black"
+            strokeWidth="0.5"
+          >
+            {TERRAIN_PATTERNS[terrain]}
+          </text>
+        </g>
+      ))}
       
-      {/* Hex background */}
-      <path
-        d={hexPath()}
-        fill={TERRAIN_COLORS[terrain]}
-        stroke="#4a3a28"
-        strokeWidth="2"
-        className="drop-shadow-lg"
-      />
-      
-      {/* Terrain pattern/icon */}
-      <text
-        x={x}
-        y={y + 2}
-        textAnchor="middle"
-        dominantBaseline="middle"
-        fontSize="18"
-        className="pointer-events-none select-none filter drop-shadow-md"
-        fill="white"
-        stroke="black"
-        strokeWidth="0.5"
-      >
-        {TERRAIN_PATTERNS[terrain]}
-      </text>
-      
-      {/* Preview placement indicator */}
+      {/* Preview placement indicator around the pivot */}
       <circle
-        cx={x}
-        cy={y}
+        cx={pivot.x}
+        cy={pivot.y}
         r="35"
         fill="none"
         stroke="rgba(255, 215, 0, 0.3)"
@@ -119,4 +128,4 @@ export const FallingTile = ({ x, y, terrain, rotation }: FallingTileProps) => {
       />
     </g>
   );
-};
\ No newline at end of file
+};
@@ -1,158 +1,192 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { Card } from '@/components/ui/card';
 import { TerrainTile } from './TerrainTile';
 import { FallingTile } from './FallingTile';
 import { NextTilePreview } from './NextTilePreview';
+import { HoldTilePreview } from './HoldTilePreview';
+import { GhostTile } from './GhostTile';
+import { SettlementSpot } from './SettlementSpot';
+import { SettlementPiece } from './SettlementPiece';
+import { RoadSegment } from './RoadSegment';
+import { HarborMarker } from './HarborMarker';
+import { KnightToken } from './KnightToken';
+import { BarbarianTrack } from './BarbarianTrack';
+import { GoldPicker } from './GoldPicker';
+import { ProductionPanel } from './ProductionPanel';
+import { BoardAnalysisPanel } from './BoardAnalysisPanel';
 import { useTileQueue } from '@/hooks/useTileQueue';
 import { TileCount } from './GameModeSelector';
 import { Button } from '@/components/ui/button';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { Download } from 'lucide-react';
+import {
+  GameAction,
+  GameEndReason,
+  GameState,
+  LineClear,
+  createGame,
+  getFallingCells,
+  getLandingPosition,
+  hasGoldPending,
+  step
+} from '@/lib/game/engine';
+import { ResourceType, addOceanFrame, generateCatanBoard, hexKey } from '@/lib/game/hex';
+import { BoardShape, DEFAULT_SHAPE, getShapeBounds, getShapeOutline } from '@/lib/game/shapes';
+import { getPieceCells } from '@/lib/game/pieces';
+import { createPlayers } from '@/lib/game/players';
+import {
+  STARTING_SETTLEMENTS,
+  Settlement,
+  canPlaceSettlement,
+  getIntersections,
+  getSettlementTurn,
+  getVertexPips
+} from '@/lib/game/settlements';
+import { ResourceHand } from '@/lib/game/production';
+import { analyzeBoard } from '@/lib/game/analysis';
+import { NumberPlacement, NumberRatios, NumberRule } from '@/lib/game/numbers';
+import { HarborSet } from '@/lib/game/harbors';
+import { downloadJson, exportBoard } from '@/lib/game/export';
+import { ISLAND_BONUS_POINTS, getIslands } from '@/lib/game/islands';
+import { countKnights } from '@/lib/game/knights';
+import { DEFAULT_DROP_SPEED, DropSpeedCurve, SOFT_DROP_SPEED } from '@/lib/game/modes';
+import { ROAD_SUPPLY, canPlaceRoad, getEdges, getRoadTurn } from '@/lib/game/roads';
+import { IslandScore, scoreIsland, scorePlayers } from '@/lib/game/scoring';
 
-export type TerrainType = 'forest' | 'field' | 'mountain' | 'pasture' | 'hill' | 'desert' | 'water' | 'gold';
-
-export interface Hex {
-  q: number;
-  r: number;
-  terrain?: TerrainType;
-  hasSettlement?: boolean;
-  hasCity?: boolean;
-  hasRoad?: boolean;
-  isWater?: boolean;
-  number?: number;
-}
+export type { TerrainType, Hex } from '@/lib/game/hex';
 
 interface GameBoardProps {
   mapSize: number;
+  shape?: BoardShape;
   isPlaying: boolean;
   tileCount: TileCount;
-  onTilePlaced?: (terrain: TerrainType) => void;
-  onGameEnd?: () => void;
+  seed: string;
+  endless?: boolean;
+  multiHexPieces?: boolean;
+  playerCount?: number;
+  numberRules?: NumberRule[];
+  numberRatios?: NumberRatios;
+  numberPlacement?: NumberPlacement;
+  harborSet?: HarborSet;
+  harborSpacing?: number;
+  seafarers?: boolean;
+  citiesAndKnights?: boolean;
+  speedCurve?: DropSpeedCurve;
+  onGameEnd?: (reason: GameEndReason) => void;
+  onScoreChange?: (score: IslandScore) => void;
+  onPlayerScoresChange?: (scores: IslandScore[]) => void;
+  onTurnChange?: (player: number) => void;
+  onSettlementsChange?: (settlements: Settlement[]) => void;
+  onRoadsChange?: (longestRoads: number[], holder: number | null) => void;
+  onResourcesChange?: (resources: ResourceHand[]) => void;
+  onGoldChange?: (goldTaken: ResourceHand[]) => void;
   resetTrigger?: number;
 }
 
 export const GameBoard = ({ 
   mapSize, 
+  shape = DEFAULT_SHAPE,
   isPlaying, 
   tileCount, 
-  onTilePlaced, 
+  seed,
+  endless = false,
+  multiHexPieces = false,
+  playerCount = 1,
+  numberRules,
+  numberRatios,
+  numberPlacement = 'balanced',
+  harborSet,
+  harborSpacing,
+  seafarers = false,
+  citiesAndKnights = false,
+  speedCurve = DEFAULT_DROP_SPEED,
   onGameEnd, 
+  onScoreChange,
+  onPlayerScoresChange,
+  onTurnChange,
+  onSettlementsChange,
+  onRoadsChange,
+  onResourcesChange,
+  onGoldChange,
   resetTrigger 
 }: GameBoardProps) => {
   // ========== STATE MANAGEMENT ==========
-  const [board, setBoard] = useState<Map<string, Hex>>(new Map());
-  const [tilePosition, setTilePosition] = useState({ q: 0, r: 0 });
-  const [tileRotation, setTileRotation] = useState(0);
+  const [game, setGame] = useState<GameState | null>(null);
   const dropTimerRef = useRef<NodeJS.Timeout | null>(null);
-  const [dropSpeed, setDropSpeed] = useState(1000);
+  const [dropSpeed, setDropSpeed] = useState(speedCurve.start);
   const [showFinalBoard, setShowFinalBoard] = useState(false);
-  const [boardNumbers, setBoardNumbers] = useState<Map<string, number>>(new Map());
+  // Settlement placement starts once the end-of-game overlay is dismissed
+  const [placingSettlements, setPlacingSettlements] = useState(false);
+  const [clearBanner, setClearBanner] = useState<LineClear | null>(null);
+  // The next board click places a knight instead of moving the piece
+  const [knightMode, setKnightMode] = useState(false);
   const isMobile = useIsMobile();
 
+  const dispatch = useCallback((action: GameAction) => {
+    setGame(prev => (prev ? step(prev, action) : prev));
+  }, []);
+
   // Use tile queue hook
   const {
-    currentTile,
-    nextTile,
-    upcomingTiles,
+    currentPiece,
+    nextPiece,
+    upcomingPieces,
     remainingTiles,
-    getNextTile,
-    hasMoreTiles,
-    resetQueue
-  } = useTileQueue({ tileCount, isPlaying });
+    heldPiece,
+    canHold,
+    holdTile
+  } = useTileQueue({ game, dispatch });
 
   // ========== RESET GAME ==========
   useEffect(() => {
-    setBoard(new Map());
-    setTilePosition({ q: 0, r: 0 });
-    setTileRotation(0);
-    setDropSpeed(1000);
+    setGame(null);
+    setDropSpeed(speedCurve.start);
     setShowFinalBoard(false);
-    setBoardNumbers(new Map());
+    setPlacingSettlements(false);
+    setKnightMode(false);
     if (dropTimerRef.current) {
       clearInterval(dropTimerRef.current);
       dropTimerRef.current = null;
     }
-    resetQueue();
-  }, [resetTrigger, resetQueue]);
+  }, [resetTrigger, speedCurve.start]);
 
-  // ========== BOARD GENERATION ==========
-  const generateCatanBoard = (size: number): Hex[] => {
-    const hexes: Hex[] = [];
-    
-    if (size === 2) {
-      // Classic Catan island shape - perfect hexagon (19 tiles)
-      const landHexes = [
-        // Center hex
-        { q: 0, r: 0 },
-        // Inner ring (6 hexes)
-        { q: 1, r: 0 }, { q: 1, r: -1 }, { q: 0, r: -1 }, 
-        { q: -1, r: 0 }, { q: -1, r: 1 }, { q: 0, r: 1 },
-        // Outer ring (12 hexes) - completing the 19 land tiles
-        { q: 2, r: 0 }, { q: 2, r: -1 }, { q: 2, r: -2 }, 
-        { q: 1, r: -2 }, { q: 0, r: -2 }, { q: -1, r: -1 },
-        { q: -2, r: 0 }, { q: -2, r: 1 }, { q: -2, r: 2 },
-        { q: -1, r: 2 }, { q: 0, r: 2 }, { q: 1, r: 1 }
-      ];
-      
-      // Add land hexes only - no water border
-      landHexes.forEach(hex => {
-        hexes.push({ ...hex, terrain: undefined });
-      });
-      
-    } else if (size === 3) {
-      // Extended hexagon for 5-6 players (37 tiles)
-      const landHexes = [];
-      // Generate hexagon with radius 3
-      for (let q = -3; q <= 3; q++) {
-        const r1 = Math.max(-3, -q - 3);
-        const r2 = Math.min(3, -q + 3);
-        for (let r = r1; r <= r2; r++) {
-          const s = -q - r;
-          if (Math.abs(q) <= 3 && Math.abs(r) <= 3 && Math.abs(s) <= 3) {
-            landHexes.push({ q, r });
-          }
-        }
-      }
-      
-      landHexes.forEach(hex => {
-        hexes.push({ ...hex, terrain: undefined });
-      });
-    } else if (size === 4) {
-      // Large Seafarers map (61 tiles for better gameplay)
-      const landHexes = [];
-      for (let q = -4; q <= 4; q++) {
-        const r1 = Math.max(-4, -q - 4);
-        const r2 = Math.min(4, -q + 4);
-        for (let r = r1; r <= r2; r++) {
-          const s = -q - r;
-          if (Math.abs(q) <= 4 && Math.abs(r) <= 4 && Math.abs(s) <= 4) {
-            landHexes.push({ q, r });
-          }
-        }
-      }
-      
-      landHexes.forEach(hex => {
-        hexes.push({ ...hex, terrain: undefined });
-      });
-    } else {
-      // Fallback for other sizes - no water border
-      for (let q = -size; q <= size; q++) {
-        const r1 = Math.max(-size, -q - size);
-        const r2 = Math.min(size, -q + size);
-        for (let r = r1; r <= r2; r++) {
-          const s = -q - r;
-          const distance = Math.max(Math.abs(q), Math.abs(r), Math.abs(s));
-          
-          if (distance <= size) {
-            hexes.push({ q, r, terrain: undefined });
-          }
-        }
-      }
-    }
-    
-    return hexes;
-  };
+  // ========== START GAME ==========
+  useEffect(() => {
+    if (!isPlaying) return;
+    setGame(prev => prev ?? createGame({
+      mapSize,
+      shape,
+      tileCount,
+      seed,
+      clearsLines: endless,
+      multiHexPieces,
+      playerCount,
+      numberRules,
+      numberRatios,
+      numberPlacement,
+      harborSet,
+      harborSpacing,
+      seafarers,
+      citiesAndKnights
+    }));
+  }, [
+    isPlaying, mapSize, shape, tileCount, seed, endless, multiHexPieces, playerCount,
+    numberRules, numberRatios, numberPlacement, harborSet, harborSpacing, seafarers, citiesAndKnights
+  ]);
 
-  const hexes = generateCatanBoard(mapSize);
+  const emptyHexes = useMemo(
+    () => (seafarers ? addOceanFrame(generateCatanBoard(mapSize, shape)) : generateCatanBoard(mapSize, shape)),
+    [mapSize, shape, seafarers]
+  );
+  const hexes = game?.hexes ?? emptyHexes;
+  const board = game?.board;
+  const boardNumbers = game?.numbers;
+  const tilePosition = game?.position ?? { q: 0, r: 0 };
+  const fallingCells = game ? getFallingCells(game) : [];
+  const ghostPosition = game ? getLandingPosition(game) : null;
+  const ghostCells = game && currentPiece && ghostPosition
+    ? getPieceCells(currentPiece, ghostPosition, game.rotation)
+    : [];
 
   // ========== COORDINATE CONVERSION ==========
   const hexToPixel = (q: number, r: number, size: number = 35) => {
@@ -161,360 +195,257 @@ export const GameBoard = ({
     return { x, y };
   };
 
-  // ========== POSITION VALIDATION ==========
-  const isValidPosition = (q: number, r: number): boolean => {
-    const hex = hexes.find(h => h.q === q && h.r === r);
-    return hex !== undefined && !hex.isWater;
-  };
+  // Parent callbacks change identity every render; only state changes matter
+  const onGameEndRef = useRef(onGameEnd);
+  onGameEndRef.current = onGameEnd;
+  const onScoreChangeRef = useRef(onScoreChange);
+  onScoreChangeRef.current = onScoreChange;
+  const onPlayerScoresChangeRef = useRef(onPlayerScoresChange);
+  onPlayerScoresChangeRef.current = onPlayerScoresChange;
+  const onTurnChangeRef = useRef(onTurnChange);
+  onTurnChangeRef.current = onTurnChange;
+  const onSettlementsChangeRef = useRef(onSettlementsChange);
+  onSettlementsChangeRef.current = onSettlementsChange;
+  const onRoadsChangeRef = useRef(onRoadsChange);
+  onRoadsChangeRef.current = onRoadsChange;
+  const onResourcesChangeRef = useRef(onResourcesChange);
+  onResourcesChangeRef.current = onResourcesChange;
+  const onGoldChangeRef = useRef(onGoldChange);
+  onGoldChangeRef.current = onGoldChange;
 
-  // ========== SPAWN POSITIONS ==========
-  const getValidSpawnPositions = () => {
-    const landHexes = hexes.filter(h => !h.isWater);
-    const topRow = Math.min(...landHexes.map(h => h.r));
-    // Get all columns that have land hexes
-    const validColumns = new Set(landHexes.map(h => h.q));
-    // Return spawn positions for each valid column, 2 rows above the board (lowered from 4)
-    return Array.from(validColumns).map(q => ({
-      q,
-      r: topRow - 2
-    }));
-  };
+  // ========== SCORING ==========
+  const linesCleared = game?.linesCleared;
+  const maxCombo = game?.maxCombo;
+  const clearPoints = game?.clearPoints;
+  const settlements = game?.settlements;
+  const longestRoads = game?.longestRoads;
+  const longestRoadHolder = game?.longestRoadHolder;
+  const barbarianAttacks = game?.barbarianAttacks;
+  const goldTaken = game?.goldTaken;
+  const islandScore = useMemo(
+    () => scoreIsland({
+      hexes,
+      board: board ?? new Map(),
+      numbers: boardNumbers ?? new Map(),
+      linesCleared,
+      maxCombo,
+      clearPoints,
+      settlements,
+      longestRoads,
+      longestRoadHolder,
+      seafarers,
+      citiesAndKnights,
+      barbarianAttacks,
+      goldTaken
+    }),
+    [
+      hexes, board, boardNumbers, linesCleared, maxCombo, clearPoints, settlements, longestRoads, longestRoadHolder,
+      seafarers, citiesAndKnights, barbarianAttacks, goldTaken
+    ]
+  );
+  useEffect(() => {
+    onScoreChangeRef.current?.(islandScore);
+  }, [islandScore]);
 
-  // ========== SPAWN NEW TILE ==========
-  const spawnNewTile = useCallback(() => {
-    if (!isPlaying || !hasMoreTiles) return;
-    
-    const validSpawnPositions = getValidSpawnPositions();
-    
-    if (validSpawnPositions.length > 0) {
-      const randomPos = validSpawnPositions[Math.floor(Math.random() * validSpawnPositions.length)];
-      setTilePosition({ q: randomPos.q, r: randomPos.r });
-      setTileRotation(0);
-    }
-  }, [isPlaying, hasMoreTiles]);
+  // ========== HOTSEAT ==========
+  const players = useMemo(() => createPlayers(playerCount), [playerCount]);
+  const gamePlayerCount = game?.playerCount;
+  const playerLinesCleared = game?.playerLinesCleared;
+  const playerClearPoints = game?.playerClearPoints;
+  const playerScores = useMemo(
+    () => gamePlayerCount && playerLinesCleared && playerClearPoints
+      ? scorePlayers({
+          hexes,
+          board: board ?? new Map(),
+          numbers: boardNumbers ?? new Map(),
+          playerCount: gamePlayerCount,
+          playerLinesCleared,
+          playerClearPoints,
+          settlements,
+          longestRoads: longestRoads ?? [],
+          longestRoadHolder: longestRoadHolder ?? null,
+          seafarers,
+          citiesAndKnights,
+          barbarianAttacks: barbarianAttacks ?? [],
+          goldTaken
+        })
+      : null,
+    [
+      hexes, board, boardNumbers, gamePlayerCount, playerLinesCleared, playerClearPoints,
+      settlements, longestRoads, longestRoadHolder, seafarers, citiesAndKnights, barbarianAttacks, goldTaken
+    ]
+  );
+  useEffect(() => {
+    if (playerScores) onPlayerScoresChangeRef.current?.(playerScores);
+  }, [playerScores]);
 
-  // ========== PLACE TILE ==========
-  const placeTile = useCallback((q: number, r: number) => {
-    if (!currentTile || !isValidPosition(q, r)) return;
-    
-    const key = `${q},${r}`;
-    
-    // Check if position already has a tile - if so, reset to top
-    if (board.has(key) && board.get(key)?.terrain) {
-      spawnNewTile();
-      return;
-    }
-    
-    // Create new board with the placed tile
-    const newBoard = new Map(board);
-    newBoard.set(key, { q, r, terrain: currentTile });
-    setBoard(newBoard);
-    
-    // Notify parent component
-    onTilePlaced?.(currentTile);
-    
-    // Get next tile from queue
-    const nextTileFromQueue = getNextTile();
-    
-    // Check if we have more tiles
-    if (nextTileFromQueue) {
-      // Spawn next tile after brief delay
-      setTimeout(spawnNewTile, 200);
-    } else {
-      // No more tiles - this was the last tile!
-      // Use the new board directly for number generation
-      setTimeout(() => {
-        // Generate numbers using the new board that includes the last tile
-        const numberTiles = [];
-        newBoard.forEach((hex, hexKey) => {
-          // Exclude only desert and water from getting numbers - gold DOES get numbers
-          if (hex.terrain && hex.terrain !== 'desert' && hex.terrain !== 'water') {
-            numberTiles.push({ key: hexKey, q: hex.q, r: hex.r });
-          }
-        });
-        
-        // Calculate how many numbers we actually need
-        const numbersNeeded = numberTiles.length;
-        
-        // Generate appropriate number distribution based on actual tiles that need numbers
-        let numberDistribution: number[] = [];
-        
-        if (mapSize === 2) {
-          // Base game: should have exactly 18 resource tiles (19 total - 1 desert)
-          numberDistribution = [2, 3, 3, 4, 4, 5, 5, 6, 6, 8, 8, 9, 9, 10, 10, 11, 11, 12];
-        } else {
-          // For larger maps, generate numbers based on how many we actually need
-          const baseNumbers = [2, 3, 3, 4, 4, 4, 5, 5, 5, 6, 6, 8, 8, 9, 9, 9, 10, 10, 10, 11, 11, 11, 12];
-          numberDistribution = [...baseNumbers];
-          
-          // Add more numbers if needed
-          while (numberDistribution.length < numbersNeeded) {
-            // Add balanced numbers (avoiding 7)
-            const additionalNumbers = [3, 4, 5, 6, 8, 9, 10, 11];
-            for (const num of additionalNumbers) {
-              if (numberDistribution.length < numbersNeeded) {
-                numberDistribution.push(num);
-              }
-            }
-          }
-        }
-        
-        // Ensure we have exactly the right amount of numbers
-        numberDistribution = numberDistribution.slice(0, numbersNeeded);
-        const getAdjacentHexes = (q: number, r: number) => {
-          return [
-            { q: q + 1, r: r },
-            { q: q - 1, r: r },
-            { q: q, r: r + 1 },
-            { q: q, r: r - 1 },
-            { q: q + 1, r: r - 1 },
-            { q: q - 1, r: r + 1 }
-          ];
-        };
-        
-        const isValidPlacement = (tileKey: string, number: number, placedNumbers: Map<string, number>) => {
-          if (number !== 6 && number !== 8) return true;
-          const tile = numberTiles.find(t => t.key === tileKey);
-          if (!tile) return false;
-          
-          const adjacentHexes = getAdjacentHexes(tile.q, tile.r);
-          for (const adj of adjacentHexes) {
-            const adjKey = `${adj.q},${adj.r}`;
-            const adjNumber = placedNumbers.get(adjKey);
-            if (adjNumber === 6 || adjNumber === 8) {
-              return false;
-            }
-          }
-          return true;
-        };
-        
-        // Place numbers
-        const highProbNumbers = numberDistribution.filter(n => n === 6 || n === 8);
-        const otherNumbers = numberDistribution.filter(n => n !== 6 && n !== 8);
-        
-        const newNumbers = new Map<string, number>();
-        const availableTiles = [...numberTiles];
-        
-        // Place 6s and 8s
-        for (const number of highProbNumbers) {
-          let placed = false;
-          for (let attempts = 0; attempts < 100 && !placed; attempts++) {
-            const randomIndex = Math.floor(Math.random() * availableTiles.length);
-            const tile = availableTiles[randomIndex];
-            
-            if (isValidPlacement(tile.key, number, newNumbers)) {
-              newNumbers.set(tile.key, number);
-              availableTiles.splice(randomIndex, 1);
-              placed = true;
-            }
-          }
-          
-          if (!placed && availableTiles.length > 0) {
-            const tile = availableTiles.shift();
-            if (tile) newNumbers.set(tile.key, number);
-          }
-        }
-        
-        // Place other numbers
-        const shuffledOthers = [...otherNumbers].sort(() => Math.random() - 0.5);
-        for (let i = 0; i < availableTiles.length && i < shuffledOthers.length; i++) {
-          const tile = availableTiles[i];
-          const number = shuffledOthers[i];
-          newNumbers.set(tile.key, number);
-        }
-        
-        // Safety check: ensure all resource tiles get a number
-        // This handles edge cases where the last tile might not get a number
-        numberTiles.forEach(tile => {
-          if (!newNumbers.has(tile.key)) {
-            // Find an available number from the remaining distribution
-            const usedNumbers = Array.from(newNumbers.values());
-            const remainingNumbers = numberDistribution.filter((num, index) => {
-              const usedCount = usedNumbers.filter(n => n === num).length;
-              const availableCount = numberDistribution.filter(n => n === num).length;
-              return usedCount < availableCount;
-            });
-            
-            if (remainingNumbers.length > 0) {
-              // Pick a random remaining number
-              const randomNumber = remainingNumbers[Math.floor(Math.random() * remainingNumbers.length)];
-              newNumbers.set(tile.key, randomNumber);
-            } else {
-              // Fallback: use any reasonable number if we somehow run out
-              const fallbackNumbers = [3, 4, 5, 9, 10, 11];
-              const randomFallback = fallbackNumbers[Math.floor(Math.random() * fallbackNumbers.length)];
-              newNumbers.set(tile.key, randomFallback);
-            }
-          }
-        });
-        
-        setBoardNumbers(newNumbers);
-        setShowFinalBoard(true);
-        onGameEnd?.();
-      }, 500);
-    }
-  }, [currentTile, board, onTilePlaced, getNextTile, spawnNewTile, onGameEnd, mapSize]);
+  const currentPlayer = game?.currentPlayer ?? 0;
+  useEffect(() => {
+    onTurnChangeRef.current?.(currentPlayer);
+  }, [currentPlayer]);
 
-  // ========== AUTO DROP ==========
-  const autoDropTile = useCallback(() => {
-    if (!currentTile || !isPlaying || showFinalBoard) return;
-    
-    setTilePosition(prev => {
-      const newR = prev.r + 1;
-      
-      // Get all valid positions in current column
-      const landHexes = hexes.filter(h => !h.isWater);
-      const columnHexes = landHexes.filter(h => h.q === prev.q).sort((a, b) => a.r - b.r);
-      
-      if (columnHexes.length === 0) {
-        // No valid positions in this column
-        return prev;
-      }
-      
-      // Find the lowest available position
-      let targetR = columnHexes[columnHexes.length - 1].r; // Start with bottom-most position
-      
-      // Check each position from top to bottom
-      for (let i = 0; i < columnHexes.length; i++) {
-        const hex = columnHexes[i];
-        const key = `${hex.q},${hex.r}`;
-        if (board.has(key) && board.get(key)?.terrain) {
-          // Found an occupied tile, place on top of it
-          if (i === 0) {
-            // Column is full from the top
-            targetR = hex.r - 1;
-          } else {
-            targetR = columnHexes[i - 1].r;
-          }
-          break;
-        }
-      }
-      
-      // If we've reached or passed the target position, place the tile
-      if (newR >= targetR) {
-        placeTile(prev.q, targetR);
-        return prev;
-      }
-      
-      // Otherwise, continue falling
-      return { ...prev, r: newR };
-    });
-  }, [currentTile, isPlaying, showFinalBoard, board, placeTile, hexes]);
-
-  // ========== HARD DROP ==========
-  const hardDrop = useCallback(() => {
-    if (!currentTile || !isPlaying) return;
-    
-    const landHexes = hexes.filter(h => !h.isWater);
-    const columnHexes = landHexes.filter(h => h.q === tilePosition.q).sort((a, b) => a.r - b.r);
-    
-    if (columnHexes.length === 0) return;
-    
-    // Find the lowest available position
-    let targetR = columnHexes[columnHexes.length - 1].r; // Start with bottom-most position
-    
-    // Check each position from top to bottom
-    for (let i = 0; i < columnHexes.length; i++) {
-      const hex = columnHexes[i];
-      const key = `${hex.q},${hex.r}`;
-      if (board.has(key) && board.get(key)?.terrain) {
-        // Found an occupied tile, place on top of it
-        if (i === 0) {
-          // Column is full from the top
-          targetR = hex.r - 1;
-        } else {
-          targetR = columnHexes[i - 1].r;
-        }
-        break;
-      }
-    }
-    
-    placeTile(tilePosition.q, targetR);
-  }, [currentTile, isPlaying, tilePosition, placeTile, hexes, board]);
+  const gameStatus = game?.status;
+
+  // ========== SETTLEMENT PHASE ==========
+  const intersections = useMemo(() => getIntersections(hexes), [hexes]);
+  const intersectionPixels = useMemo(() => new Map(intersections.map(i => {
+    // A corner is the centroid of the three hexes that meet there
+    const points = i.hexes.map(c => hexToPixel(c.q, c.r));
+    return [i.key, {
+      x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+      y: points.reduce((sum, p) => sum + p.y, 0) / points.length
+    }];
+  })), [intersections]);
+  const settlementTurn = game && gameStatus !== 'playing' ? getSettlementTurn(game) : null;
+  const buildableSpots = useMemo(
+    () => game && placingSettlements && settlementTurn !== null
+      ? intersections.filter(i => canPlaceSettlement(game, i))
+      : [],
+    [game, placingSettlements, settlementTurn, intersections]
+  );
+
+  useEffect(() => {
+    if (settlements) onSettlementsChangeRef.current?.(Array.from(settlements.values()));
+  }, [settlements]);
+
+  // ========== ROADS ==========
+  const edges = useMemo(() => getEdges(intersections), [intersections]);
+  const roads = game?.roads;
+  const roadTurn = game && gameStatus !== 'playing' ? getRoadTurn(game) : null;
+  const buildableEdges = useMemo(
+    () => game && placingSettlements && roadTurn !== null
+      ? edges.filter(edge => canPlaceRoad(game, edge, roadTurn))
+      : [],
+    [game, placingSettlements, roadTurn, edges]
+  );
+
+  useEffect(() => {
+    if (longestRoads) onRoadsChangeRef.current?.(longestRoads, longestRoadHolder ?? null);
+  }, [longestRoads, longestRoadHolder]);
+
+  // Queued and held pieces both stay counted until their tiles are placed
+  const tilesLeft = game ? Object.values(game.remainingTiles).reduce((sum, count) => sum + count, 0) : 0;
+
+  // ========== BOARD ANALYSIS ==========
+  // Numbers only exist once the island is finished
+  const boardAnalysis = useMemo(
+    () => board && boardNumbers && gameStatus !== 'playing'
+      ? analyzeBoard({ hexes, board, numbers: boardNumbers })
+      : null,
+    [hexes, board, boardNumbers, gameStatus]
+  );
+
+  // ========== ISLANDS ==========
+  // Seafarers layouts are only valid once the sea has split the land
+  const islands = useMemo(
+    () => seafarers && board && gameStatus !== 'playing' ? getIslands(board) : null,
+    [seafarers, board, gameStatus]
+  );
+  const islandReport = islands && (
+    <p className={`text-[10px] sm:text-xs md:text-sm mt-1 sm:mt-2 ${islands.length >= 2 ? 'text-primary font-medium' : 'text-destructive'}`}>
+      {islands.length >= 2
+        ? `🏝️ ${islands.length} islands discovered (${islands.map(island => island.length).join(', ')} hexes) - +${(islands.length - 1) * ISLAND_BONUS_POINTS} VP`
+        : 'The sea never split the land - no new islands discovered.'}
+    </p>
+  );
+
+  // ========== BARBARIANS ==========
+  const knights = useMemo(
+    () => board && gamePlayerCount
+      ? Array.from({ length: gamePlayerCount }, (_, player) => countKnights(board, player))
+      : [],
+    [board, gamePlayerCount]
+  );
+
+  // ========== PRODUCTION ==========
+  const resources = game?.resources;
+  useEffect(() => {
+    if (resources) onResourcesChangeRef.current?.(resources);
+  }, [resources]);
+
+  useEffect(() => {
+    if (goldTaken) onGoldChangeRef.current?.(goldTaken);
+  }, [goldTaken]);
+
+  const handleRoll = useCallback((times: number) => dispatch({ type: 'roll', times }), [dispatch]);
+  const handleChooseGold = useCallback(
+    (resource: ResourceType) => dispatch({ type: 'chooseGold', resource }),
+    [dispatch]
+  );
+
+  // ========== LINE CLEAR BANNER ==========
+  const lastClear = game?.lastClear;
+  useEffect(() => {
+    if (!lastClear) return;
+    setClearBanner(lastClear);
+    const timeout = setTimeout(() => setClearBanner(null), 1500);
+    return () => clearTimeout(timeout);
+  }, [lastClear]);
+
+  // ========== GAME END ==========
+  useEffect(() => {
+    if (!gameStatus || gameStatus === 'playing') return;
+    const timeout = setTimeout(() => {
+      setShowFinalBoard(true);
+      onGameEndRef.current?.(gameStatus);
+    }, 500);
+    return () => clearTimeout(timeout);
+  }, [gameStatus]);
 
   // ========== HANDLE BOARD CLICK ==========
+  const robberPending = game?.robberPending ?? false;
   const handleBoardClick = useCallback((q: number, r: number) => {
-    if (!currentTile || !isPlaying || showFinalBoard) return;
-    
-    // Check if clicked position is valid
-    if (!isValidPosition(q, r)) return;
-    
-    // Check if position already has a tile
-    const key = `${q},${r}`;
-    if (board.has(key) && board.get(key)?.terrain) {
-      // Reset tile to top
-      spawnNewTile();
+    // After a 7 the next hex clicked gets the robber
+    if (robberPending && !showFinalBoard) {
+      dispatch({ type: 'moveRobber', q, r });
       return;
     }
-    
-    // Move tile to clicked position
-    setTilePosition({ q, r });
-  }, [currentTile, isPlaying, showFinalBoard, board, spawnNewTile]);
+    if (!currentPiece || !isPlaying || showFinalBoard) return;
+    if (knightMode) {
+      dispatch({ type: 'placeKnight', q, r });
+      setKnightMode(false);
+      return;
+    }
+    dispatch({ type: 'moveTo', q, r });
+  }, [robberPending, currentPiece, isPlaying, showFinalBoard, knightMode, dispatch]);
 
   // ========== KEYBOARD CONTROLS ==========
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (!currentTile || !isPlaying || showFinalBoard) return;
+      if (!currentPiece || !isPlaying || showFinalBoard) return;
 
       switch (e.key) {
         case 'ArrowLeft':
           e.preventDefault();
-          setTilePosition(prev => {
-            const newQ = prev.q - 1;
-            const key = `${newQ},${prev.r}`;
-            
-            // Check if we're above the board
-            const landHexes = hexes.filter(h => !h.isWater);
-            const topRow = Math.min(...landHexes.map(h => h.r));
-            
-            // If above board, check if the column has any valid positions
-            if (prev.r < topRow) {
-              const hasValidPositionInColumn = landHexes.some(h => h.q === newQ);
-              return hasValidPositionInColumn ? { ...prev, q: newQ } : prev;
-            }
-            
-            // On board, check for valid position and collision
-            const hasCollision = board.has(key) && board.get(key)?.terrain;
-            return isValidPosition(newQ, prev.r) && !hasCollision ? { ...prev, q: newQ } : prev;
-          });
+          dispatch({ type: 'move', direction: -1 });
           break;
           
         case 'ArrowRight':
           e.preventDefault();
-          setTilePosition(prev => {
-            const newQ = prev.q + 1;
-            const key = `${newQ},${prev.r}`;
-            
-            // Check if we're above the board
-            const landHexes = hexes.filter(h => !h.isWater);
-            const topRow = Math.min(...landHexes.map(h => h.r));
-            
-            // If above board, check if the column has any valid positions
-            if (prev.r < topRow) {
-              const hasValidPositionInColumn = landHexes.some(h => h.q === newQ);
-              return hasValidPositionInColumn ? { ...prev, q: newQ } : prev;
-            }
-            
-            // On board, check for valid position and collision
-            const hasCollision = board.has(key) && board.get(key)?.terrain;
-            return isValidPosition(newQ, prev.r) && !hasCollision ? { ...prev, q: newQ } : prev;
-          });
+          dispatch({ type: 'move', direction: 1 });
           break;
           
         case 'ArrowDown':
           e.preventDefault();
           // Make drop faster while held
-          setDropSpeed(100);
+          setDropSpeed(SOFT_DROP_SPEED);
           break;
           
         case ' ':
           e.preventDefault();
-          hardDrop();
+          dispatch({ type: 'hardDrop' });
           break;
           
         case 'ArrowUp':
           e.preventDefault();
-          setTileRotation(prev => (prev + 60) % 360);
+          dispatch({ type: 'rotate' });
+          break;
+
+        case 'c':
+        case 'C':
+        case 'Shift':
+          e.preventDefault();
+          holdTile();
           break;
       }
     };
@@ -522,7 +453,7 @@ export const GameBoard = ({
     const handleKeyUp = (e: KeyboardEvent) => {
       if (e.key === 'ArrowDown') {
         // Reset drop speed
-        setDropSpeed(1000);
+        setDropSpeed(speedCurve.start);
       }
     };
 
@@ -533,11 +464,11 @@ export const GameBoard = ({
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [currentTile, isPlaying, showFinalBoard, hardDrop, board, hexes, mapSize]);
+  }, [currentPiece, isPlaying, showFinalBoard, dispatch, holdTile, speedCurve.start]);
 
   // ========== AUTO DROP TIMER ==========
   useEffect(() => {
-    if (!isPlaying || !currentTile || showFinalBoard) {
+    if (!isPlaying || !currentPiece || showFinalBoard) {
       if (dropTimerRef.current) {
         clearInterval(dropTimerRef.current);
         dropTimerRef.current = null;
@@ -545,7 +476,7 @@ export const GameBoard = ({
       return;
     }
 
-    dropTimerRef.current = setInterval(autoDropTile, dropSpeed);
+    dropTimerRef.current = setInterval(() => dispatch({ type: 'tick' }), dropSpeed);
     
     return () => {
       if (dropTimerRef.current) {
@@ -553,36 +484,34 @@ export const GameBoard = ({
         dropTimerRef.current = null;
       }
     };
-  }, [isPlaying, currentTile, showFinalBoard, autoDropTile, dropSpeed]);
-
-  // ========== SPAWN FIRST TILE ==========
-  useEffect(() => {
-    if (isPlaying && currentTile) {
-      spawnNewTile();
-    }
-  }, [isPlaying, currentTile]);
+  }, [isPlaying, currentPiece, showFinalBoard, dispatch, dropSpeed]);
 
   // ========== SPEED UP OVER TIME ==========
   useEffect(() => {
     if (!isPlaying) return;
     
     const speedUpInterval = setInterval(() => {
-      setDropSpeed(prev => Math.max(300, prev - 20)); // Minimum 300ms, decrease by 20ms
-    }, 20000); // Speed up every 20 seconds
+      setDropSpeed(prev => Math.max(speedCurve.min, prev - speedCurve.step));
+    }, speedCurve.interval);
 
     return () => clearInterval(speedUpInterval);
-  }, [isPlaying]);
-
-  // Mobile specific adjustments
-  const svgViewBox = isMobile 
-    ? mapSize === 2 ? "-200 -230 400 460" 
-    : mapSize === 3 ? "-280 -320 560 640" 
-    : mapSize === 4 ? "-350 -400 700 800"
-    : "-360 -400 720 800"
-    : mapSize === 2 ? "-250 -280 500 560" 
-    : mapSize === 3 ? "-350 -380 700 760" 
-    : mapSize === 4 ? "-450 -480 900 960"
-    : "-450 -480 900 960";
+  }, [isPlaying, speedCurve]);
+
+  // ========== BOARD FRAME ==========
+  // The wooden frame follows the land's outline - one loop per coast, so a
+  // ring gets a frame around its lake too. The view leaves room above the
+  // island for pieces to spawn, and on desktop for the title.
+  const landHexes = hexes.filter(hex => !hex.isWater);
+  const frameLoops = getShapeOutline(landHexes, hexToPixel, 35, 10);
+  const innerLoops = getShapeOutline(landHexes, hexToPixel, 35, 3);
+  const toPoints = (loop: Array<{ x: number; y: number }>) => loop.map(p => `${p.x},${p.y}`).join(' ');
+  const bounds = getShapeBounds(hexes, hexToPixel, 35);
+  const frameTop = Math.min(...frameLoops.flat().map(p => p.y));
+  const margin = isMobile ? 25 : 50;
+  const spawnRoom = 2 * Math.sqrt(3) * 35;
+  const viewTop = Math.min(bounds.minY - spawnRoom, isMobile ? frameTop : frameTop - 60);
+  const viewLeft = bounds.minX - margin;
+  const svgViewBox = `${viewLeft} ${viewTop} ${bounds.maxX + margin - viewLeft} ${bounds.maxY + margin - viewTop}`;
 
   // ========== RENDER ==========
   return (
@@ -652,42 +581,34 @@ export const GameBoard = ({
               {/* Ocean background - full coverage */}
               <rect x="-100%" y="-100%" width="200%" height="200%" fill="url(#ocean-pattern)" />
               
-              {/* Hexagonal board outline (like the wooden frame) - adjusted for map size */}
-              <polygon 
-                points={mapSize === 2 
-                  ? "0,-154 133,-77 133,77 0,154 -133,77 -133,-77"
-                  : mapSize === 3
-                  ? "0,-231 199.5,-115.5 199.5,115.5 0,231 -199.5,115.5 -199.5,-115.5"
-                  : mapSize === 4
-                  ? "0,-308 266,-154 266,154 0,308 -266,154 -266,-154"
-                  : "0,-308 266,-154 266,154 0,308 -266,154 -266,-154"
-                }
-                fill="none" 
-                stroke="url(#board-frame)" 
-                strokeWidth={isMobile ? "8" : "12"} 
-                opacity="0.6"
-                filter="url(#wood-texture)"
-              />
+              {/* Board outline (like the wooden frame) - follows the island's shape */}
+              {frameLoops.map((loop, i) => (
+                <polygon 
+                  key={`frame-${i}`}
+                  points={toPoints(loop)}
+                  fill="none" 
+                  stroke="url(#board-frame)" 
+                  strokeWidth={isMobile ? "8" : "12"} 
+                  opacity="0.6"
+                  filter="url(#wood-texture)"
+                />
+              ))}
               
-              {/* Inner hexagonal border */}
-              <polygon 
-                points={mapSize === 2 
-                  ? "0,-147 126,-73.5 126,73.5 0,147 -126,73.5 -126,-73.5"
-                  : mapSize === 3
-                  ? "0,-220.5 189,-110.25 189,110.25 0,220.5 -189,110.25 -189,-110.25"
-                  : mapSize === 4
-                  ? "0,-294 252,-147 252,147 0,294 -252,147 -252,-147"
-                  : "0,-294 252,-147 252,147 0,294 -252,147 -252,-147"
-                }
-                fill="none" 
-                stroke="#DAA520" 
-                strokeWidth={isMobile ? "2" : "3"} 
-                opacity="0.8"
-              />
+              {/* Inner border */}
+              {innerLoops.map((loop, i) => (
+                <polygon 
+                  key={`inner-${i}`}
+                  points={toPoints(loop)}
+                  fill="none" 
+                  stroke="#DAA520" 
+                  strokeWidth={isMobile ? "2" : "3"} 
+                  opacity="0.8"
+                />
+              ))}
               
               {/* Title - Hidden on mobile */}
               {!isMobile && (
-                <text x="0" y={mapSize === 2 ? "-190" : mapSize === 3 ? "-250" : mapSize === 4 ? "-330" : "-330"} 
+                <text x={(bounds.minX + bounds.maxX) / 2} y={frameTop - 30} 
                       textAnchor="middle" fontSize="18" fill="#DAA520" fontWeight="bold" opacity="0.8">
                   CATAN ISLAND
                 </text>
@@ -696,9 +617,9 @@ export const GameBoard = ({
               {/* Render all hexes */}
               {hexes.map(hex => {
                 const { x, y } = hexToPixel(hex.q, hex.r);
-                const key = `${hex.q},${hex.r}`;
-                const placedHex = board.get(key);
-                const number = boardNumbers.get(key);
+                const key = hexKey(hex.q, hex.r);
+                const placedHex = board?.get(key);
+                const number = boardNumbers?.get(key);
                 
                 return (
                   <TerrainTile
@@ -708,19 +629,108 @@ export const GameBoard = ({
                     terrain={placedHex?.terrain || (hex.isWater ? 'water' : undefined)}
                     hasSettlement={placedHex?.hasSettlement}
                     hasCity={placedHex?.hasCity}
+                    hasRobber={game?.robber?.q === hex.q && game.robber.r === hex.r}
+                    ownerColor={playerCount > 1 && placedHex?.owner !== undefined ? players[placedHex.owner]?.color : undefined}
                     number={!hex.isWater && placedHex?.terrain && placedHex.terrain !== 'desert' && placedHex.terrain !== 'water' ? number : undefined}
                     onClick={() => handleBoardClick(hex.q, hex.r)}
                   />
                 );
               })}
               
-              {/* Render falling tile */}
-              {currentTile && isPlaying && !showFinalBoard && (
+              {/* Harbors out at sea, with piers to the corners they serve */}
+              {game?.harbors.map(harbor => {
+                const land = hexToPixel(harbor.hex.q, harbor.hex.r);
+                const sea = hexToPixel(harbor.facing.q, harbor.facing.r);
+                const piers = harbor.vertices.flatMap(vertex => intersectionPixels.get(vertex) ?? []);
+                return (
+                  <HarborMarker
+                    key={harbor.edge}
+                    x={land.x + (sea.x - land.x) * 0.8}
+                    y={land.y + (sea.y - land.y) * 0.8}
+                    piers={piers}
+                    type={harbor.type}
+                  />
+                );
+              })}
+
+              {/* Knights standing guard on their hexes */}
+              {board && Array.from(board.values()).map(hex => {
+                if (hex.knight === undefined) return null;
+                const { x, y } = hexToPixel(hex.q, hex.r);
+                return (
+                  <KnightToken
+                    key={hexKey(hex.q, hex.r)}
+                    x={x + 14}
+                    y={y - 14}
+                    color={players[hex.knight]?.color ?? players[0].color}
+                  />
+                );
+              })}
+
+              {/* Roads along hex edges */}
+              {roads && Array.from(roads.values()).map(road => {
+                const from = intersectionPixels.get(road.vertices[0]);
+                const to = intersectionPixels.get(road.vertices[1]);
+                return from && to && (
+                  <RoadSegment key={road.edge} from={from} to={to} color={players[road.owner]?.color ?? players[0].color} />
+                );
+              })}
+
+              {/* Edges the current player can build on */}
+              {roadTurn !== null && buildableEdges.map(edge => (
+                <RoadSegment
+                  key={edge.key}
+                  from={intersectionPixels.get(edge.vertices[0])!}
+                  to={intersectionPixels.get(edge.vertices[1])!}
+                  color={players[roadTurn]?.color ?? players[0].color}
+                  isCandidate
+                  onClick={() => dispatch({ type: 'placeRoad', edge: edge.key })}
+                />
+              ))}
+
+              {/* Settlements on their intersections */}
+              {settlements && Array.from(settlements.values()).map(settlement => {
+                const pixel = intersectionPixels.get(settlement.vertex);
+                return pixel && (
+                  <SettlementPiece
+                    key={settlement.vertex}
+                    x={pixel.x}
+                    y={pixel.y}
+                    color={players[settlement.owner]?.color ?? players[0].color}
+                    isCity={settlement.isCity}
+                  />
+                );
+              })}
+
+              {/* Open spots with their production value */}
+              {buildableSpots.map(spot => {
+                const pixel = intersectionPixels.get(spot.key)!;
+                return (
+                  <SettlementSpot
+                    key={spot.key}
+                    x={pixel.x}
+                    y={pixel.y}
+                    pips={getVertexPips(spot, boardNumbers ?? new Map())}
+                    onClick={() => dispatch({ type: 'placeSettlement', vertex: spot.key })}
+                  />
+                );
+              })}
+
+              {/* Ghost showing where the piece will land */}
+              {currentPiece && isPlaying && !showFinalBoard && ghostPosition && ghostPosition.r > tilePosition.r &&
+                ghostCells.map(cell => (
+                  <GhostTile
+                    key={hexKey(cell.q, cell.r)}
+                    x={hexToPixel(cell.q, cell.r).x}
+                    y={hexToPixel(cell.q, cell.r).y}
+                    terrain={cell.terrain}
+                  />
+                ))}
+
+              {/* Render falling piece */}
+              {currentPiece && isPlaying && !showFinalBoard && (
                 <FallingTile
-                  x={hexToPixel(tilePosition.q, tilePosition.r).x}
-                  y={hexToPixel(tilePosition.q, tilePosition.r).y}
-                  terrain={currentTile}
-                  rotation={tileRotation}
+                  cells={fallingCells.map(cell => ({ ...hexToPixel(cell.q, cell.r), terrain: cell.terrain }))}
                 />
               )}
             </svg>
@@ -736,34 +746,145 @@ export const GameBoard = ({
                     <div className="hidden sm:block">
                       <div>← → : Move tile left/right</div>
                       <div>↓ : Speed up drop</div>
-                      <div>↑ : Rotate tile (visual only)</div>
+                      <div>↑ : Rotate piece</div>
                       <div>SPACE : Hard drop (instant place)</div>
+                      <div>C / SHIFT : Hold tile</div>
                       <div>Click : Move tile to position</div>
                     </div>
                     <div className="sm:hidden">
                       <div>Tap board to move tile</div>
-                      <div>Tiles reset if blocked</div>
+                      <div>Full columns reject drops</div>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+
+            {/* Robber move after a 7 */}
+            {robberPending && !showFinalBoard && (
+              <div className="absolute top-2 sm:top-4 left-1/2 -translate-x-1/2 px-3 py-1 sm:px-4 sm:py-2 rounded-lg bg-destructive/90 text-destructive-foreground text-xs sm:text-sm text-center font-semibold shadow-lg animate-in fade-in zoom-in">
+                Rolled a 7! Click a hex to move the robber
+              </div>
+            )}
+
+            {/* Settlement phase instructions */}
+            {placingSettlements && !showFinalBoard && !robberPending && game && (
+              <div className="absolute top-2 sm:top-4 left-1/2 -translate-x-1/2 px-3 py-1 sm:px-4 sm:py-2 rounded-lg bg-card/90 border border-border/30 backdrop-blur-sm text-xs sm:text-sm text-center shadow-lg">
+                {settlementTurn !== null ? (
+                  <>
+                    <div className="font-semibold text-foreground flex items-center justify-center gap-1.5">
+                      {playerCount > 1 && (
+                        <span className="w-2.5 h-2.5 rounded-full border border-foreground/30" style={{ backgroundColor: players[settlementTurn].color }} />
+                      )}
+                      {playerCount > 1 ? `${players[settlementTurn].name}: place a settlement` : 'Place a settlement'}
+                      {' '}({game.settlements.size + 1}/{game.playerCount * STARTING_SETTLEMENTS})
+                    </div>
+                    <div className="text-muted-foreground">Spot numbers are pip sums - higher produces more</div>
+                  </>
+                ) : roadTurn !== null ? (
+                  <>
+                    <div className="font-semibold text-foreground flex items-center justify-center gap-1.5">
+                      {playerCount > 1 && (
+                        <span className="w-2.5 h-2.5 rounded-full border border-foreground/30" style={{ backgroundColor: players[roadTurn].color }} />
+                      )}
+                      {playerCount > 1 ? `${players[roadTurn].name}: build a road` : 'Build a road'}
+                      {' '}({Array.from(game.roads.values()).filter(road => road.owner === roadTurn).length + 1}/{ROAD_SUPPLY})
+                    </div>
+                    <div className="text-muted-foreground">
+                      {game.roads.size < game.settlements.size
+                        ? 'Start the road at your new settlement'
+                        : 'Extend your network - 5+ connected roads earn Longest Road'}
                     </div>
                   </>
+                ) : (
+                  <div className="font-semibold text-foreground">Road building is over</div>
                 )}
               </div>
             )}
 
+            {/* Line clear banner */}
+            {clearBanner && !showFinalBoard && (
+              <div className="absolute top-2 sm:top-4 left-1/2 -translate-x-1/2 pointer-events-none px-3 py-1 sm:px-4 sm:py-2 rounded-lg bg-primary/90 text-primary-foreground text-xs sm:text-sm font-bold shadow-lg animate-in fade-in zoom-in">
+                {[
+                  clearBanner.rows.length > 0 && `Row clear${clearBanner.rows.length > 1 ? ` x${clearBanner.rows.length}` : ''}`,
+                  clearBanner.rings.length > 0 && 'Ring clear'
+                ].filter(Boolean).join(' + ')}
+                {' '}+{clearBanner.points}
+                {clearBanner.combo > 1 && ` • Combo x${clearBanner.combo}`}
+              </div>
+            )}
+
+            {/* Gold field payout waiting for a resource choice */}
+            {game && gameStatus !== 'playing' && !showFinalBoard && (
+              <GoldPicker
+                pending={game.goldPending}
+                players={players.slice(0, game.playerCount)}
+                onChoose={handleChooseGold}
+              />
+            )}
+
             {/* Game Over - Mobile Responsive */}
-            {showFinalBoard && (
+            {showFinalBoard && gameStatus === 'complete' && (
               <div className="absolute inset-0 bg-background/80 backdrop-blur-sm flex items-center justify-center p-2 sm:p-4">
                 <Card className="p-3 sm:p-4 md:p-6 text-center border-2 border-primary/50 bg-card/90 backdrop-blur-sm w-[90%] max-w-[90vw] sm:max-w-md">
                   <h2 className="text-lg sm:text-xl md:text-2xl font-bold text-primary mb-1 sm:mb-2">🏝️ Island Complete! 🏝️</h2>
                   <p className="text-xs sm:text-sm md:text-base text-muted-foreground">Your Catan island is ready!</p>
                   <p className="text-[10px] sm:text-xs md:text-sm text-muted-foreground mt-1 sm:mt-2">Number tokens have been placed on the tiles.</p>
+                  {islandReport}
+                  <Button 
+                    className="mt-3 sm:mt-4 text-xs sm:text-sm md:text-base" 
+                    size={isMobile ? "sm" : "default"}
+                    onClick={() => {
+                      setShowFinalBoard(false);
+                      setPlacingSettlements(true);
+                    }}
+                  >
+                    Place Settlements
+                  </Button>
+                </Card>
+              </div>
+            )}
+
+            {/* Topped Out - no column could take the next tile */}
+            {showFinalBoard && gameStatus === 'topped-out' && (
+              <div className="absolute inset-0 bg-background/80 backdrop-blur-sm flex items-center justify-center p-2 sm:p-4">
+                <Card className="p-3 sm:p-4 md:p-6 text-center border-2 border-destructive/50 bg-card/90 backdrop-blur-sm w-[90%] max-w-[90vw] sm:max-w-md">
+                  <h2 className="text-lg sm:text-xl md:text-2xl font-bold text-destructive mb-1 sm:mb-2">🌋 Topped Out! 🌋</h2>
+                  <p className="text-xs sm:text-sm md:text-base text-muted-foreground">Every column is full - the next tile has nowhere to land.</p>
+                  <p className="text-[10px] sm:text-xs md:text-sm text-muted-foreground mt-1 sm:mt-2">
+                    {tilesLeft} tiles left unplaced. Number tokens were placed on the tiles you built.
+                  </p>
+                  {islandReport}
+                  <Button 
+                    className="mt-3 sm:mt-4 text-xs sm:text-sm md:text-base" 
+                    size={isMobile ? "sm" : "default"}
+                    onClick={() => {
+                      setShowFinalBoard(false);
+                      setPlacingSettlements(true);
+                    }}
+                  >
+                    Place Settlements
+                  </Button>
+                </Card>
+              </div>
+            )}
+
+            {/* Landlocked - a Seafarers layout that never split into islands */}
+            {showFinalBoard && gameStatus === 'landlocked' && (
+              <div className="absolute inset-0 bg-background/80 backdrop-blur-sm flex items-center justify-center p-2 sm:p-4">
+                <Card className="p-3 sm:p-4 md:p-6 text-center border-2 border-destructive/50 bg-card/90 backdrop-blur-sm w-[90%] max-w-[90vw] sm:max-w-md">
+                  <h2 className="text-lg sm:text-xl md:text-2xl font-bold text-destructive mb-1 sm:mb-2">🌊 Landlocked! 🌊</h2>
+                  <p className="text-xs sm:text-sm md:text-base text-muted-foreground">Seafarers needs at least two islands - use water tiles to split the land.</p>
+                  {islandReport}
                   <Button 
                     className="mt-3 sm:mt-4 text-xs sm:text-sm md:text-base" 
                     size={isMobile ? "sm" : "default"}
                     onClick={() => {
                       setShowFinalBoard(false);
+                      setPlacingSettlements(true);
                     }}
                   >
-                    View Board
+                    Place Settlements
                   </Button>
                 </Card>
               </div>
@@ -774,8 +895,56 @@ export const GameBoard = ({
 
       {/* Side Panel - Responsive */}
       <div className="lg:col-span-1 order-1 lg:order-2 space-y-2 sm:space-y-3 md:space-y-4">
-        {/* Next Tile Preview */}
-        <NextTilePreview nextTile={nextTile} upcomingTiles={upcomingTiles} />
+        {/* Number layout report once the island is finished */}
+        {boardAnalysis && !showFinalBoard && <BoardAnalysisPanel analysis={boardAnalysis} unmetRules={game?.unmetNumberRules} />}
+
+        {/* Dice production once the island is finished */}
+        {game && gameStatus !== 'playing' && !showFinalBoard && (
+          <ProductionPanel
+            lastRoll={game.lastRoll}
+            rollCounts={game.rollCounts}
+            players={players.slice(0, game.playerCount)}
+            robberPending={game.robberPending}
+            goldPending={hasGoldPending(game)}
+            onRoll={handleRoll}
+          />
+        )}
+
+        {/* The finished island with its numbers, robber and harbors */}
+        {game && gameStatus !== 'playing' && !showFinalBoard && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full text-xs sm:text-sm"
+            onClick={() => downloadJson(exportBoard(game), `island-${game.seed}`)}
+          >
+            <Download className="w-3.5 h-3.5 mr-1.5" />
+            Export Board
+          </Button>
+        )}
+
+        {/* Barbarian ship and knights while the island is built */}
+        {game?.citiesAndKnights && gameStatus === 'playing' && (
+          <BarbarianTrack
+            position={game.barbarianPosition}
+            attacks={game.barbarianAttacks}
+            knights={knights}
+            players={players.slice(0, game.playerCount)}
+            currentPlayer={currentPlayer}
+            knightMode={knightMode}
+            onToggleKnightMode={() => setKnightMode(mode => !mode)}
+          />
+        )}
+
+        {/* Hold slot beside the Next Tile Preview */}
+        <div className="flex gap-2 sm:gap-3">
+          <div className="w-auto sm:w-28 shrink-0">
+            <HoldTilePreview heldPiece={heldPiece} canHold={canHold && isPlaying && !showFinalBoard} onHold={holdTile} />
+          </div>
+          <div className="flex-1 min-w-0">
+            <NextTilePreview nextPiece={nextPiece} upcomingPieces={upcomingPieces} />
+          </div>
+        </div>
         
         {/* Remaining Tiles Counter - Compact on mobile */}
         <Card className="bg-card/60 backdrop-blur-sm border-border/30">
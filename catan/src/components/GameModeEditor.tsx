@@ -0,0 +1,312 @@
+import { useState } from 'react';
+import { ArrowLeft, Save } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { GameMode, TileCount, calculateHexCount, validateGameMode } from './GameModeSelector';
+import { DEFAULT_NUMBER_RULES, NUMBER_RULES, NUMBER_RULE_LABELS, NumberRule } from '@/lib/game/numbers';
+import { DEFAULT_DROP_SPEED, DEFAULT_TARGET_POINTS, DropSpeedCurve, createCustomModeId } from '@/lib/game/modes';
+import { MAX_PLAYERS } from '@/lib/game/players';
+import { BoardShape, DEFAULT_SHAPE, SHAPE_LABELS, getShapeHexes } from '@/lib/game/shapes';
+import type { HexCoord } from '@/lib/game/hex';
+
+interface GameModeEditorProps {
+  // Custom mode being edited - a new mode starts from the base game
+  mode?: GameMode;
+  onSave: (mode: GameMode) => void;
+  onCancel: () => void;
+}
+
+const MAP_SIZES = [2, 3, 4];
+
+const TERRAIN_LABELS: Record<keyof TileCount, string> = {
+  field: '🌾 Field',
+  forest: '🌲 Forest',
+  pasture: '🐑 Pasture',
+  hill: '🧱 Hill',
+  mountain: '⛏️ Mountain',
+  desert: '🏜️ Desert',
+  water: '🌊 Water',
+  gold: '💰 Gold'
+};
+
+// Custom masks are typed as "q,r" pairs, one per line or separated by semicolons
+const formatMask = (hexes: HexCoord[]) => hexes.map(({ q, r }) => `${q},${r}`).join('\n');
+
+const parseMask = (text: string): HexCoord[] =>
+  text
+    .split(/[\n;]/)
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      const [q, r] = entry.split(',').map(value => Number(value.trim()));
+      return { q, r };
+    });
+
+const createDraft = (): GameMode => ({
+  id: createCustomModeId(),
+  name: 'My Island',
+  description: 'A custom island.',
+  mapSize: 2,
+  maxPlayers: 4,
+  features: [],
+  numberRules: DEFAULT_NUMBER_RULES,
+  targetPoints: DEFAULT_TARGET_POINTS,
+  dropSpeed: DEFAULT_DROP_SPEED,
+  tileCount: { field: 4, forest: 4, pasture: 4, hill: 3, mountain: 3, desert: 1, water: 0, gold: 0 }
+});
+
+// Builds or edits a custom mode, checking it against validateGameMode as it changes
+export const GameModeEditor = ({ mode, onSave, onCancel }: GameModeEditorProps) => {
+  const [draft, setDraft] = useState<GameMode>(() => mode ?? createDraft());
+  // Raw mask text, so half-typed entries aren't reformatted while editing
+  const [maskText, setMaskText] = useState(() => (mode?.shape?.type === 'custom' ? formatMask(mode.shape.hexes) : ''));
+  const shape = draft.shape ?? DEFAULT_SHAPE;
+  const validation = validateGameMode(draft);
+  const speed = draft.dropSpeed ?? DEFAULT_DROP_SPEED;
+  const rules = draft.numberRules ?? DEFAULT_NUMBER_RULES;
+  const totalTiles = Object.values(draft.tileCount).reduce((sum, count) => sum + count, 0);
+
+  const update = (changes: Partial<GameMode>) => setDraft(prev => ({ ...prev, ...changes }));
+  const updateTiles = (terrain: keyof TileCount, count: number) =>
+    update({ tileCount: { ...draft.tileCount, [terrain]: count } });
+  const updateSpeed = (changes: Partial<DropSpeedCurve>) => update({ dropSpeed: { ...speed, ...changes } });
+  // Kept in NUMBER_RULES order - it is the order rules are dropped in
+  const toggleRule = (rule: NumberRule, enabled: boolean) =>
+    update({ numberRules: NUMBER_RULES.filter(r => (r === rule ? enabled : rules.includes(r))) });
+  // A new custom mask starts from the shape it replaces
+  const changeShape = (type: BoardShape['type']) => {
+    if (type !== 'custom') {
+      update({ shape: { type } });
+      return;
+    }
+    const hexes = getShapeHexes(shape, draft.mapSize);
+    setMaskText(formatMask(hexes));
+    update({ shape: { type, hexes } });
+  };
+  const updateMask = (text: string) => {
+    setMaskText(text);
+    update({ shape: { type: 'custom', hexes: parseMask(text) } });
+  };
+
+  const handleSave = () => {
+    if (!validation.isValid) return;
+    onSave({
+      ...draft,
+      name: draft.name.trim(),
+      features: ['Custom Mode', `${draft.targetPoints ?? DEFAULT_TARGET_POINTS} VP Target`]
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-background p-2 sm:p-4 md:p-8">
+      <div className="max-w-3xl mx-auto space-y-2 sm:space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <Button variant="ghost" onClick={onCancel} className="flex items-center gap-1 sm:gap-2 text-xs sm:text-base">
+            <ArrowLeft className="w-3 h-3 sm:w-4 sm:h-4" />
+            Modes
+          </Button>
+          <Button
+            variant="medieval"
+            onClick={handleSave}
+            disabled={!validation.isValid}
+            className="flex items-center gap-1 sm:gap-2 text-xs sm:text-base"
+          >
+            <Save className="w-3 h-3 sm:w-4 sm:h-4" />
+            Save Mode
+          </Button>
+        </div>
+
+        {/* Live validation */}
+        <div
+          className={`rounded-lg border p-2 sm:p-3 text-xs sm:text-sm font-medium ${
+            validation.isValid ? 'border-primary/40 bg-primary/10 text-primary' : 'border-destructive/40 bg-destructive/10 text-destructive'
+          }`}
+        >
+          {validation.message}
+        </div>
+
+        {/* Island */}
+        <Card className="bg-card/80 backdrop-blur-sm border-border/50 shadow-medieval">
+          <CardHeader className="p-3 sm:p-4 md:p-6">
+            <CardTitle className="text-lg text-primary">{mode ? 'Edit Mode' : 'New Mode'}</CardTitle>
+            <CardDescription>Custom modes are saved in this browser.</CardDescription>
+          </CardHeader>
+          <CardContent className="p-3 sm:p-4 md:p-6 pt-0 md:pt-0 space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="mode-name">Name</Label>
+                <Input id="mode-name" value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="mode-description">Description</Label>
+                <Input id="mode-description" value={draft.description} onChange={(e) => update({ description: e.target.value })} />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <div className="space-y-1">
+                <Label>Shape</Label>
+                <Select value={shape.type} onValueChange={(value) => changeShape(value as BoardShape['type'])}>
+                  <SelectTrigger aria-label="Shape">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SHAPE_LABELS) as BoardShape['type'][]).map(type => (
+                      <SelectItem key={type} value={type}>
+                        {SHAPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Map size</Label>
+                <Select
+                  value={String(draft.mapSize)}
+                  onValueChange={(value) => update({ mapSize: Number(value) })}
+                  disabled={shape.type === 'custom'}
+                >
+                  <SelectTrigger aria-label="Map size">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MAP_SIZES.map(size => (
+                      <SelectItem key={size} value={String(size)}>
+                        {size} • {calculateHexCount(size, shape)} hexes
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="mode-players">Max players</Label>
+                <Input
+                  id="mode-players"
+                  type="number"
+                  min={1}
+                  max={MAX_PLAYERS}
+                  value={draft.maxPlayers}
+                  onChange={(e) => update({ maxPlayers: Number(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="mode-target">Target VP</Label>
+                <Input
+                  id="mode-target"
+                  type="number"
+                  min={1}
+                  value={draft.targetPoints ?? DEFAULT_TARGET_POINTS}
+                  onChange={(e) => update({ targetPoints: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+            {shape.type === 'custom' && (
+              <div className="space-y-1">
+                <Label htmlFor="mode-mask">Hexes (q,r)</Label>
+                <Textarea
+                  id="mode-mask"
+                  rows={6}
+                  className="font-mono text-xs"
+                  placeholder={'0,0\n1,-1\n1,0'}
+                  value={maskText}
+                  onChange={(e) => updateMask(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Axial coordinates, one per line or separated by semicolons. 0,0 is the centre, q runs left to right.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Tile bag */}
+        <Card className="bg-card/80 backdrop-blur-sm border-border/50 shadow-medieval">
+          <CardHeader className="p-3 sm:p-4 md:p-6">
+            <CardTitle className="text-lg text-primary flex items-center justify-between">
+              Tiles
+              <span className="text-xs font-normal text-muted-foreground">
+                {totalTiles} in the bag • {calculateHexCount(draft.mapSize, shape)} hexes to fill
+              </span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-3 sm:p-4 md:p-6 pt-0 md:pt-0">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {(Object.keys(TERRAIN_LABELS) as (keyof TileCount)[]).map(terrain => (
+                <div key={terrain} className="space-y-1">
+                  <Label htmlFor={`tiles-${terrain}`}>{TERRAIN_LABELS[terrain]}</Label>
+                  <Input
+                    id={`tiles-${terrain}`}
+                    type="number"
+                    min={0}
+                    value={draft.tileCount[terrain]}
+                    onChange={(e) => updateTiles(terrain, Number(e.target.value))}
+                  />
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Drop speed curve */}
+        <Card className="bg-card/80 backdrop-blur-sm border-border/50 shadow-medieval">
+          <CardHeader className="p-3 sm:p-4 md:p-6">
+            <CardTitle className="text-lg text-primary">Drop Speed</CardTitle>
+            <CardDescription>
+              Pieces fall one row every {speed.start}ms, {speed.step}ms faster every {speed.interval / 1000}s, down to {speed.min}ms.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-3 sm:p-4 md:p-6 pt-0 md:pt-0">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="speed-start">Start (ms)</Label>
+                <Input id="speed-start" type="number" min={0} value={speed.start} onChange={(e) => updateSpeed({ start: Number(e.target.value) })} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="speed-min">Fastest (ms)</Label>
+                <Input id="speed-min" type="number" min={0} value={speed.min} onChange={(e) => updateSpeed({ min: Number(e.target.value) })} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="speed-step">Speed-up (ms)</Label>
+                <Input id="speed-step" type="number" min={0} value={speed.step} onChange={(e) => updateSpeed({ step: Number(e.target.value) })} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="speed-interval">Every (s)</Label>
+                <Input
+                  id="speed-interval"
+                  type="number"
+                  min={1}
+                  value={speed.interval / 1000}
+                  onChange={(e) => updateSpeed({ interval: Number(e.target.value) * 1000 })}
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Number token rules */}
+        <Card className="bg-card/80 backdrop-blur-sm border-border/50 shadow-medieval">
+          <CardHeader className="p-3 sm:p-4 md:p-6">
+            <CardTitle className="text-lg text-primary">Number Rules</CardTitle>
+            <CardDescription>Rules lower in the list are dropped first if an island can't meet them all.</CardDescription>
+          </CardHeader>
+          <CardContent className="p-3 sm:p-4 md:p-6 pt-0 md:pt-0 space-y-2">
+            {NUMBER_RULES.map(rule => (
+              <div key={rule} className="flex items-center gap-2">
+                <Checkbox
+                  id={`rule-${rule}`}
+                  checked={rules.includes(rule)}
+                  onCheckedChange={(checked) => toggleRule(rule, checked === true)}
+                />
+                <Label htmlFor={`rule-${rule}`} className="font-normal">{NUMBER_RULE_LABELS[rule]}</Label>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
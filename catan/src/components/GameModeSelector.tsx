@@ -1,6 +1,28 @@
+import { useRef, useState } from 'react';
+import { Download, Pencil, Plus, Trash2, Upload } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { GameModeEditor } from './GameModeEditor';
 import heroIsland from '@/assets/hero-island.jpg';
+import { DAILY_MODE_ID, createDailyMode } from '@/lib/game/daily';
+import { downloadJson } from '@/lib/game/export';
+import { EXTENSION_NUMBER_RATIOS, NumberRatios, NumberRule } from '@/lib/game/numbers';
+import { EXTENSION_HARBORS, HarborSet } from '@/lib/game/harbors';
+import { MAX_PLAYERS } from '@/lib/game/players';
+import { BoardShape, DEFAULT_SHAPE, getShapeHexes } from '@/lib/game/shapes';
+import {
+  DEFAULT_DROP_SPEED,
+  DropSpeedCurve,
+  SOFT_DROP_SPEED,
+  createCustomModeId,
+  deleteCustomMode,
+  exportGameMode,
+  isCustomMode,
+  loadCustomModes,
+  parseGameModeJson,
+  saveCustomMode
+} from '@/lib/game/modes';
 
 export interface TileCount {
   field: number;
@@ -18,9 +40,22 @@ export interface GameMode {
   name: string;
   description: string;
   mapSize: number;
+  shape?: BoardShape;  // Outline of the island, a hexagon by default
   maxPlayers: number;
   features: string[];
   tileCount: TileCount;
+  seed?: string;       // Fixed seed - every player gets the same island
+  endless?: boolean;   // Completed lines are cleared instead of only scored
+  multiHexPieces?: boolean; // Some drops are 2-3 hex pieces
+  numberRules?: NumberRule[]; // Number token layout rules, no touching 6/8 by default
+  numberRatios?: NumberRatios; // Token frequencies, the base game set by default
+  spiralNumbers?: boolean; // Offers the lettered A-R token spiral
+  harbors?: HarborSet; // Harbors around the finished coast, the base game set by default
+  harborSpacing?: number; // Free coastal edges between two harbors
+  seafarers?: boolean; // Ocean frame around the board, scored on islands discovered
+  citiesAndKnights?: boolean; // Barbarian track, knights and city commodities
+  targetPoints?: number; // Victory points to aim for, 10 by default
+  dropSpeed?: DropSpeedCurve; // Starting speed and how quickly pieces speed up
 }
 
 const GAME_MODES: GameMode[] = [
@@ -31,6 +66,8 @@ const GAME_MODES: GameMode[] = [
     mapSize: 2, // Generates 19 land tiles
     maxPlayers: 4,
     features: ['19 Land Tiles', 'Balanced Resources', 'Classic Gameplay'],
+    numberRules: ['no-adjacent-6-8', 'no-adjacent-2-12', 'no-adjacent-same', 'balanced-pips'],
+    spiralNumbers: true,
     tileCount: { 
       field: 4,      // Wheat
       forest: 4,     // Wood
@@ -49,6 +86,10 @@ const GAME_MODES: GameMode[] = [
     mapSize: 3, // Generates 37 land tiles
     maxPlayers: 6,
     features: ['37 Land Tiles', 'Larger Island', 'More Resources'],
+    numberRules: ['no-adjacent-6-8', 'no-adjacent-2-12', 'balanced-pips'],
+    numberRatios: EXTENSION_NUMBER_RATIOS,
+    spiralNumbers: true,
+    harbors: EXTENSION_HARBORS,
     tileCount: { 
       field: 8,      // Wheat
       forest: 8,     // Wood
@@ -60,6 +101,29 @@ const GAME_MODES: GameMode[] = [
       gold: 0 
     }
   },
+  {
+    id: 'elongated-5-6',
+    name: 'Elongated Island (5-6 Players)',
+    description: 'The elongated island of the 5-6 player extension.',
+    mapSize: 2, // Generates 30 land tiles in columns of 3-4-5-6-5-4-3
+    shape: { type: 'elongated' },
+    maxPlayers: 6,
+    features: ['30 Land Tiles', 'Elongated Island', 'More Resources'],
+    numberRules: ['no-adjacent-6-8', 'no-adjacent-2-12', 'balanced-pips'],
+    numberRatios: EXTENSION_NUMBER_RATIOS,
+    spiralNumbers: true,
+    harbors: EXTENSION_HARBORS,
+    tileCount: { 
+      field: 6,      // Wheat
+      forest: 6,     // Wood
+      pasture: 6,    // Sheep
+      hill: 5,       // Brick
+      mountain: 5,   // Ore
+      desert: 2,     // Desert
+      water: 0,      // No water tiles
+      gold: 0 
+    }
+  },
   {
     id: 'seafarers-islands',
     name: 'Seafarers: Island Hopping',
@@ -67,6 +131,9 @@ const GAME_MODES: GameMode[] = [
     mapSize: 3, // Reduced from 4 to 3 for better gameplay (37 tiles)
     maxPlayers: 4,
     features: ['Multiple Islands', 'Sea Routes', 'Gold Hexes', 'Ships'],
+    harborSpacing: 1, // Small islands have short coastlines
+    seafarers: true,
+    targetPoints: 12,
     tileCount: { 
       field: 4,      // Wheat
       forest: 4,     // Wood
@@ -85,6 +152,9 @@ const GAME_MODES: GameMode[] = [
     mapSize: 4,    // Large map for 5-6 players
     maxPlayers: 6,
     features: ['Massive Map', 'Naval Exploration', 'Gold Discovery', 'Trade Routes'],
+    harbors: EXTENSION_HARBORS,
+    seafarers: true,
+    targetPoints: 12,
     tileCount: { 
       field: 8,      // Wheat
       forest: 8,     // Wood
@@ -102,7 +172,9 @@ const GAME_MODES: GameMode[] = [
     description: 'Infinite tiles for endless building fun!',
     mapSize: 3,
     maxPlayers: 4,
-    features: ['Unlimited Tiles', 'Extended Gameplay', 'Stack Forever'],
+    features: ['Unlimited Tiles', 'Extended Gameplay', 'Stack Forever', 'Line Clears', 'Multi-Hex Pieces'],
+    endless: true,
+    multiHexPieces: true,
     tileCount: { 
       field: 50,     // Lots of tiles for Tetris-style gameplay
       forest: 50, 
@@ -121,6 +193,7 @@ const GAME_MODES: GameMode[] = [
     mapSize: 2, // Standard board size
     maxPlayers: 4,
     features: ['Knights', 'City Walls', 'Commodities', 'Barbarians'],
+    citiesAndKnights: true,
     tileCount: { 
       field: 4, 
       forest: 4, 
@@ -134,32 +207,53 @@ const GAME_MODES: GameMode[] = [
   }
 ];
 
-// Helper function to calculate expected hex count for a given map size
-export const calculateHexCount = (mapSize: number): number => {
-  if (mapSize === 2) return 19;  // Classic Catan
-  if (mapSize === 3) return 37;  // 5-6 player expansion
-  if (mapSize === 4) return 61;  // Large Seafarers map
-  
-  // Generic calculation for other sizes
-  let count = 0;
-  for (let q = -mapSize; q <= mapSize; q++) {
-    const r1 = Math.max(-mapSize, -q - mapSize);
-    const r2 = Math.min(mapSize, -q + mapSize);
-    for (let r = r1; r <= r2; r++) {
-      const s = -q - r;
-      if (Math.abs(q) <= mapSize && Math.abs(r) <= mapSize && Math.abs(s) <= mapSize) {
-        count++;
-      }
-    }
-  }
-  return count;
-};
+// Helper function to calculate expected hex count for a given map size and shape
+export const calculateHexCount = (mapSize: number, shape: BoardShape = DEFAULT_SHAPE): number =>
+  getShapeHexes(shape, mapSize).length;
 
 // Validation function
 export const validateGameMode = (mode: GameMode): { isValid: boolean; message: string } => {
-  const expectedHexes = calculateHexCount(mode.mapSize);
+  const expectedHexes = calculateHexCount(mode.mapSize, mode.shape);
   const totalTiles = Object.values(mode.tileCount).reduce((sum, count) => sum + count, 0);
-  
+  const speed = mode.dropSpeed ?? DEFAULT_DROP_SPEED;
+
+  if (!mode.name.trim()) {
+    return { isValid: false, message: 'Give the mode a name' };
+  }
+
+  if (mode.shape?.type === 'custom') {
+    const { hexes } = mode.shape;
+    if (hexes.length === 0) {
+      return { isValid: false, message: 'A custom shape needs at least one hex' };
+    }
+    if (hexes.some(hex => !Number.isInteger(hex.q) || !Number.isInteger(hex.r))) {
+      return { isValid: false, message: 'Custom shape coordinates must be whole numbers' };
+    }
+    if (expectedHexes < hexes.length) {
+      return { isValid: false, message: 'A custom shape lists the same hex more than once' };
+    }
+  }
+
+  if (!Number.isInteger(mode.maxPlayers) || mode.maxPlayers < 1 || mode.maxPlayers > MAX_PLAYERS) {
+    return { isValid: false, message: `Players must be between 1 and ${MAX_PLAYERS}` };
+  }
+
+  if (Object.values(mode.tileCount).some(count => !Number.isInteger(count) || count < 0)) {
+    return { isValid: false, message: 'Tile counts must be whole numbers of 0 or more' };
+  }
+
+  if (mode.targetPoints !== undefined && (!Number.isInteger(mode.targetPoints) || mode.targetPoints < 1)) {
+    return { isValid: false, message: 'Target VP must be at least 1' };
+  }
+
+  if (speed.min < SOFT_DROP_SPEED || speed.start < speed.min) {
+    return { isValid: false, message: `Drop speed must start at or above its minimum, and the minimum can't be under ${SOFT_DROP_SPEED}ms` };
+  }
+
+  if (speed.step < 0 || speed.interval < 1000) {
+    return { isValid: false, message: 'Pieces can speed up at most once per second, and never slow down' };
+  }
+
   if (totalTiles < expectedHexes) {
     return {
       isValid: false,
@@ -174,7 +268,49 @@ interface GameModeSelectorProps {
   onSelectMode: (mode: GameMode) => void;
 }
 
+const downloadMode = (mode: GameMode) => downloadJson(exportGameMode(mode), mode.name || 'mode');
+
 export const GameModeSelector = ({ onSelectMode }: GameModeSelectorProps) => {
+  const [customModes, setCustomModes] = useState<GameMode[]>(loadCustomModes);
+  // 'new' opens a blank editor, a mode opens it for editing
+  const [editing, setEditing] = useState<GameMode | 'new' | null>(null);
+  const [importErrors, setImportErrors] = useState<{ file: string; errors: string[] } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Built on every render rather than once per page load, so a tab left open
+  // past midnight moves on to the new island
+  const dailyMode = createDailyMode();
+
+  // Imports pass the schema and validateGameMode before they are listed.
+  // A shared custom mode keeps its id, so importing a newer copy replaces it.
+  const handleImport = async (file: File) => {
+    const { mode: imported, errors } = parseGameModeJson(await file.text());
+    if (!imported) {
+      setImportErrors({ file: file.name, errors });
+      return;
+    }
+    const validation = validateGameMode(imported);
+    if (!validation.isValid) {
+      setImportErrors({ file: file.name, errors: [validation.message] });
+      return;
+    }
+    const mode = isCustomMode(imported) ? imported : { ...imported, id: createCustomModeId() };
+    setCustomModes(saveCustomMode(mode));
+    setImportErrors(null);
+  };
+
+  if (editing) {
+    return (
+      <GameModeEditor
+        mode={editing === 'new' ? undefined : editing}
+        onSave={(mode) => {
+          setCustomModes(saveCustomMode(mode));
+          setEditing(null);
+        }}
+        onCancel={() => setEditing(null)}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-background p-2 sm:p-4 md:p-8">
       <div className="max-w-6xl mx-auto">
@@ -197,24 +333,64 @@ export const GameModeSelector = ({ onSelectMode }: GameModeSelectorProps) => {
         </div>
 
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 sm:gap-4 md:gap-6 mb-4 sm:mb-6 md:mb-8">
-          {GAME_MODES.map((mode) => (
+          {[...GAME_MODES, dailyMode, ...customModes].map((mode) => (
             <Card 
               key={mode.id} 
               className="bg-card/80 backdrop-blur-sm border-border/50 shadow-medieval hover:shadow-glow-primary transition-all duration-300 hover:scale-[1.01] sm:hover:scale-[1.02] md:hover:scale-105 cursor-pointer group active:scale-[0.98]"
-              onClick={() => onSelectMode(mode)}
+              onClick={() => onSelectMode(mode.id === DAILY_MODE_ID ? createDailyMode() : mode)}
             >
               <CardHeader className="p-3 sm:p-4 md:p-6">
                 <div className="flex flex-col gap-1 sm:gap-2 mb-1 sm:mb-2">
                   <CardTitle className="text-base sm:text-lg md:text-2xl text-primary group-hover:text-accent transition-colors leading-tight">
                     {mode.name}
                   </CardTitle>
-                  <div className="flex gap-1 sm:gap-2 flex-wrap">
+                  <div className="flex gap-1 sm:gap-2 flex-wrap items-center">
                     <Badge variant="secondary" className="text-[10px] sm:text-xs px-1 sm:px-2 py-0 sm:py-1">
                       {mode.maxPlayers} Players
                     </Badge>
                     <Badge variant="outline" className="text-[10px] sm:text-xs px-1 sm:px-2 py-0 sm:py-1">
-                      {calculateHexCount(mode.mapSize)} Hexes
+                      {calculateHexCount(mode.mapSize, mode.shape)} Hexes
                     </Badge>
+                    {isCustomMode(mode) && (
+                      <div className="ml-auto flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          title="Export as JSON"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            downloadMode(mode);
+                          }}
+                        >
+                          <Download className="w-3.5 h-3.5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          title="Edit mode"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setEditing(mode);
+                          }}
+                        >
+                          <Pencil className="w-3.5 h-3.5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-destructive"
+                          title="Delete mode"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setCustomModes(deleteCustomMode(mode.id));
+                          }}
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 </div>
                 <CardDescription className="text-xs sm:text-sm md:text-base line-clamp-2 sm:line-clamp-none">
@@ -248,8 +424,66 @@ export const GameModeSelector = ({ onSelectMode }: GameModeSelectorProps) => {
               </CardContent>
             </Card>
           ))}
+
+          {/* Opens the custom mode editor */}
+          <Card
+            className="bg-card/40 backdrop-blur-sm border-2 border-dashed border-border/50 hover:border-primary/50 transition-all duration-300 cursor-pointer group flex items-center justify-center min-h-[140px]"
+            onClick={() => setEditing('new')}
+          >
+            <div className="flex flex-col items-center gap-1 sm:gap-2 text-muted-foreground group-hover:text-primary transition-colors p-3">
+              <Plus className="w-6 h-6 sm:w-8 sm:h-8" />
+              <span className="text-sm sm:text-base font-semibold">Create Custom Mode</span>
+              <span className="text-[10px] sm:text-xs text-center">Pick the map, tile bag, speed and number rules</span>
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-1 flex items-center gap-1"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  fileInputRef.current?.click();
+                }}
+              >
+                <Upload className="w-3.5 h-3.5" />
+                Import JSON
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onClick={(e) => e.stopPropagation()}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  // Cleared so the same file can be picked again after fixing it
+                  e.target.value = '';
+                  if (file) handleImport(file);
+                }}
+              />
+            </div>
+          </Card>
         </div>
 
+        {/* Why the last import was rejected */}
+        {importErrors && (
+          <Card className="mb-4 sm:mb-6 md:mb-8 border-destructive/50 bg-destructive/10">
+            <CardHeader className="p-3 sm:p-4 pb-1 sm:pb-2">
+              <CardTitle className="text-sm sm:text-base text-destructive flex items-center justify-between gap-2">
+                Couldn't import {importErrors.file}
+                <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setImportErrors(null)}>
+                  Dismiss
+                </Button>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-3 sm:p-4 pt-0 sm:pt-0">
+              <ul className="list-disc pl-4 space-y-0.5 text-xs sm:text-sm text-destructive font-mono">
+                {importErrors.errors.map((error, i) => (
+                  <li key={i}>{error}</li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+
         <div className="text-center px-2 sm:px-4">
           <Card className="inline-block bg-card/60 backdrop-blur-sm border-border/30 p-3 sm:p-4 md:p-6 max-w-full">
             <h3 className="text-sm sm:text-base md:text-lg font-semibold text-foreground mb-1 sm:mb-2">How to Play</h3>
@@ -258,12 +492,15 @@ export const GameModeSelector = ({ onSelectMode }: GameModeSelectorProps) => {
               <p className="hidden sm:block">• Use ← → arrow keys to move tiles left/right</p>
               <p className="hidden sm:block">• Press ↓ to speed up the drop</p>
               <p className="hidden sm:block">• Press SPACE to instantly place (hard drop)</p>
-              <p className="hidden sm:block">• Press ↑ to rotate tiles (visual only)</p>
+              <p className="hidden sm:block">• Press C or SHIFT to hold a tile for later (once per drop)</p>
+              <p className="hidden sm:block">• Press ↑ to rotate - multi-hex pieces change shape as they turn</p>
               <p className="sm:hidden">• Tap the board to move falling tiles</p>
               <p className="sm:hidden">• Tiles automatically fall and stack</p>
+              <p className="sm:hidden">• Tap the Hold panel to save a tile for later</p>
               <p>• Stack terrain to build your perfect Catan island!</p>
+              <p>• When the island is done, place starting settlements on the corners</p>
               <p className="mt-2 font-semibold">• Desert and water tiles won't receive numbers</p>
-              <p className="font-semibold">• Gold tiles DO receive number tokens!</p>
+              <p className="font-semibold">• Gold tiles DO receive number tokens - and pay out any resource you choose!</p>
             </div>
           </Card>
         </div>
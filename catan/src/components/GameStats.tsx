@@ -1,6 +1,20 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
+import { ScoreRule } from '@/lib/game/scoring';
+import { Player } from '@/lib/game/players';
+import { RESOURCE_ICONS, ResourceType } from '@/lib/game/hex';
+
+export interface PlayerStats {
+  player: Player;
+  victoryPoints: number;
+  settlements: number;
+  longestRoad: number;
+  hasLongestRoad: boolean;
+  resources: Record<ResourceType, number>;
+  // Resources chosen from gold fields, already counted in resources
+  gold: number;
+}
 
 interface GameStatsProps {
   resources: {
@@ -15,16 +29,14 @@ interface GameStatsProps {
   settlements: number;
   cities: number;
   longestRoad: number;
+  // Resources chosen from gold fields
+  gold?: number;
+  scoreBreakdown?: ScoreRule[];
+  // Hotseat standings - only shown with two or more players
+  players?: PlayerStats[];
+  currentPlayer?: number;
 }
 
-const RESOURCE_ICONS = {
-  wood: '🪵',
-  wheat: '🌾',
-  ore: '⛏️',
-  sheep: '🐑',
-  brick: '🧱'
-};
-
 const RESOURCE_COLORS = {
   wood: 'bg-terrain-forest',
   wheat: 'bg-terrain-field',
@@ -39,9 +51,13 @@ export const GameStats = ({
   targetPoints, 
   settlements, 
   cities, 
-  longestRoad 
+  longestRoad,
+  gold = 0,
+  scoreBreakdown = [],
+  players = [],
+  currentPlayer = 0
 }: GameStatsProps) => {
-  const progressPercentage = (victoryPoints / targetPoints) * 100;
+  const progressPercentage = Math.min(100, (victoryPoints / targetPoints) * 100);
 
   return (
     <div className="space-y-4">
@@ -49,7 +65,7 @@ export const GameStats = ({
       <Card className="bg-card/80 backdrop-blur-sm border-border/50 shadow-medieval">
         <CardHeader className="pb-3">
           <CardTitle className="text-lg text-primary flex items-center justify-between">
-            Victory Points
+            {players.length > 1 ? 'Island Score' : 'Victory Points'}
             <Badge variant="secondary" className="text-lg px-3 py-1">
               {victoryPoints}/{targetPoints}
             </Badge>
@@ -58,11 +74,62 @@ export const GameStats = ({
         <CardContent>
           <Progress value={progressPercentage} className="h-3" />
           <div className="text-xs text-muted-foreground mt-1 text-center">
-            {targetPoints - victoryPoints} points to victory
+            {victoryPoints >= targetPoints ? 'Victory reached!' : `${targetPoints - victoryPoints} points to victory`}
           </div>
+
+          {/* Per-rule score breakdown */}
+          {scoreBreakdown.length > 0 && (
+            <div className="mt-3 pt-3 border-t border-border/20 space-y-1">
+              {scoreBreakdown.map(rule => (
+                <div key={rule.id} className="flex justify-between items-center text-xs gap-2">
+                  <div className="min-w-0">
+                    <div className="text-foreground">{rule.label}</div>
+                    <div className="text-muted-foreground truncate">{rule.detail}</div>
+                  </div>
+                  <span className={`font-semibold ${rule.points > 0 ? 'text-green-600' : rule.points < 0 ? 'text-red-600' : 'text-muted-foreground'}`}>
+                    {rule.points > 0 ? `+${rule.points}` : rule.points}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      {/* Players */}
+      {players.length > 1 && (
+        <Card className="bg-card/80 backdrop-blur-sm border-border/50 shadow-medieval">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg text-primary">Players</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {players.map(({ player, victoryPoints: points, settlements: built, longestRoad: road, hasLongestRoad, resources: tally, gold: picked }) => (
+              <div
+                key={player.index}
+                className={`rounded-lg p-2 border ${player.index === currentPlayer ? 'border-primary bg-primary/10' : 'border-border/30'}`}
+              >
+                <div className="flex justify-between items-center">
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-4 rounded-full border-2 border-foreground/30" style={{ backgroundColor: player.color }}></div>
+                    <span className="text-sm font-medium text-foreground">{player.name}</span>
+                    {player.index === currentPlayer && <span className="text-xs text-primary">• turn</span>}
+                  </div>
+                  <Badge variant={points >= targetPoints ? 'default' : 'outline'}>{points}/{targetPoints} VP</Badge>
+                </div>
+                <div className="flex gap-2 mt-1 text-xs text-muted-foreground">
+                  {Object.entries(tally).map(([resource, count]) => (
+                    <span key={resource}>{RESOURCE_ICONS[resource as keyof typeof RESOURCE_ICONS]} {count}</span>
+                  ))}
+                  {picked > 0 && <span>💰 {picked}</span>}
+                  {built > 0 && <span>🏠 {built}</span>}
+                  {road > 0 && <span className={hasLongestRoad ? 'text-primary font-semibold' : ''}>🛣️ {road}{hasLongestRoad && ' ★'}</span>}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Resources */}
       <Card className="bg-card/80 backdrop-blur-sm border-border/50 shadow-medieval">
         <CardHeader className="pb-3">
@@ -80,6 +147,12 @@ export const GameStats = ({
               </div>
             ))}
           </div>
+          {gold > 0 && (
+            <div className="mt-3 pt-3 border-t border-border/20 flex justify-between text-xs">
+              <span className="text-muted-foreground">💰 Chosen from gold fields</span>
+              <span className="font-medium text-foreground">{gold}</span>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -0,0 +1,49 @@
+import { TerrainType } from './GameBoard';
+
+interface GhostTileProps {
+  x: number;
+  y: number;
+  terrain: TerrainType;
+}
+
+const TERRAIN_COLORS = {
+  forest: '#228B22',    // Forest Green - Wood
+  field: '#F4A460',     // Sandy Brown - Wheat  
+  mountain: '#696969',  // Dim Gray - Ore
+  pasture: '#90EE90',   // Light Green - Sheep
+  hill: '#A0522D',      // Sienna - Brick
+  desert: '#F5DEB3',    // Wheat (pale) - Desert
+  water: '#4682B4',     // Steel Blue - Sea
+  gold: '#FFD700'       // Gold
+};
+
+// Translucent outline where the falling tile will land
+export const GhostTile = ({ x, y, terrain }: GhostTileProps) => {
+  const hexSize = 30;
+  
+  // Generate hexagon path
+  const hexPath = () => {
+    const points = [];
+    for (let i = 0; i < 6; i++) {
+      const angle = (Math.PI / 3) * i - Math.PI / 6; // Rotate for flat-top hex
+      const pointX = x + hexSize * Math.cos(angle);
+      const pointY = y + hexSize * Math.sin(angle);
+      points.push(`${pointX},${pointY}`);
+    }
+    return `M ${points.join(' L ')} Z`;
+  };
+
+  return (
+    <g className="pointer-events-none">
+      <path
+        d={hexPath()}
+        fill={TERRAIN_COLORS[terrain]}
+        fillOpacity="0.25"
+        stroke="#ffd700"
+        strokeWidth="2"
+        strokeDasharray="6 4"
+        strokeOpacity="0.8"
+      />
+    </g>
+  );
+};
@@ -0,0 +1,52 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { RESOURCE_ICONS, RESOURCE_TYPES, ResourceType } from '@/lib/game/hex';
+import { Player } from '@/lib/game/players';
+
+interface GoldPickerProps {
+  // Grants each player still has to choose
+  pending: number[];
+  players: Player[];
+  onChoose: (resource: ResourceType) => void;
+}
+
+// Gold field payout - each grant is turned into any resource, one at a time
+export const GoldPicker = ({ pending, players, onChoose }: GoldPickerProps) => {
+  const player = pending.findIndex(count => count > 0);
+  if (player === -1) return null;
+
+  return (
+    // Stays open until every grant is chosen - rolling waits for it
+    <Dialog open>
+      <DialogContent className="max-w-sm [&>button]:hidden" onInteractOutside={(e) => e.preventDefault()} onEscapeKeyDown={(e) => e.preventDefault()}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-primary">
+            💰 Gold Field
+            {players.length > 1 && (
+              <span className="flex items-center gap-1.5 text-sm font-normal text-foreground">
+                <span className="w-2.5 h-2.5 rounded-full border border-foreground/30" style={{ backgroundColor: players[player]?.color }} />
+                {players[player]?.name}
+              </span>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            Choose any resource - {pending[player]} pick{pending[player] === 1 ? '' : 's'} left
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-5 gap-2">
+          {RESOURCE_TYPES.map(resource => (
+            <Button
+              key={resource}
+              variant="outline"
+              className="h-16 flex flex-col gap-1"
+              onClick={() => onChoose(resource)}
+            >
+              <span className="text-xl">{RESOURCE_ICONS[resource]}</span>
+              <span className="text-[10px] capitalize">{resource}</span>
+            </Button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
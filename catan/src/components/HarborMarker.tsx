@@ -0,0 +1,39 @@
+import { HarborType, getHarborRatio } from '@/lib/game/harbors';
+import { RESOURCE_ICONS } from '@/lib/game/hex';
+
+interface HarborMarkerProps {
+  // Out at sea, in front of the harbor's edge
+  x: number;
+  y: number;
+  // The two corners that can use the harbor
+  piers: Array<{ x: number; y: number }>;
+  type: HarborType;
+}
+
+// Trade harbor on the coast - 3:1 for anything or 2:1 for one resource
+export const HarborMarker = ({ x, y, piers, type }: HarborMarkerProps) => (
+  <g className="pointer-events-none">
+    {/* Wooden piers out to the two corners */}
+    {piers.map((pier, i) => (
+      <line key={i} x1={x} y1={y} x2={pier.x} y2={pier.y} stroke="#8B4513" strokeWidth="3" strokeLinecap="round" opacity="0.8" />
+    ))}
+    <circle cx={x} cy={y} r="11" fill="#fef3c7" stroke="#8B4513" strokeWidth="2" />
+    {type !== 'generic' && (
+      <text x={x} y={y - 3} textAnchor="middle" dominantBaseline="middle" fontSize="8" className="select-none">
+        {RESOURCE_ICONS[type]}
+      </text>
+    )}
+    <text
+      x={x}
+      y={type === 'generic' ? y + 1 : y + 6}
+      textAnchor="middle"
+      dominantBaseline="middle"
+      fontSize={type === 'generic' ? '8' : '6'}
+      fontWeight="bold"
+      fill="#1e293b"
+      className="select-none"
+    >
+      {getHarborRatio(type)}:1
+    </text>
+  </g>
+);
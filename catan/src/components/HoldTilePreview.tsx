@@ -0,0 +1,53 @@
+import { MiniPiece } from './NextTilePreview';
+import { Piece } from '@/lib/game/pieces';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useIsMobile } from '@/hooks/use-mobile';
+
+interface HoldTilePreviewProps {
+  heldPiece: Piece | null;
+  canHold: boolean;
+  onHold: () => void;
+}
+
+export const HoldTilePreview = ({ heldPiece, canHold, onHold }: HoldTilePreviewProps) => {
+  const isMobile = useIsMobile();
+
+  // The whole card doubles as the touch button for holding
+  return (
+    <Card
+      role="button"
+      aria-disabled={!canHold}
+      onClick={() => canHold && onHold()}
+      className={`bg-card/80 backdrop-blur-sm border-border/50 shadow-medieval h-full select-none transition-opacity ${canHold ? 'cursor-pointer hover:border-primary/50 active:scale-[0.98]' : 'opacity-60 cursor-not-allowed'}`}
+    >
+      {!isMobile && (
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg text-center text-primary">Hold</CardTitle>
+        </CardHeader>
+      )}
+      <CardContent className={isMobile ? 'p-2 flex items-center gap-1' : 'text-center'}>
+        {isMobile && <div className="text-xs font-medium text-muted-foreground">Hold:</div>}
+        {heldPiece ? (
+          <div className={isMobile ? 'flex items-center' : ''}>
+            <div className={isMobile ? '' : 'mb-2'}>
+              <MiniPiece
+                piece={heldPiece}
+                size={heldPiece.cells.length > 1 ? (isMobile ? 8 : 14) : (isMobile ? 15 : 25)}
+              />
+            </div>
+            {!isMobile && (
+              <div className="text-sm font-medium text-foreground capitalize">{heldPiece.cells.map(cell => cell.terrain).join(' + ')}</div>
+            )}
+          </div>
+        ) : (
+          <div className="text-xs text-muted-foreground py-1 sm:py-4">Empty</div>
+        )}
+        {!isMobile && (
+          <div className="text-[10px] text-muted-foreground mt-2">
+            {canHold ? 'C / Shift or tap' : 'Used this drop'}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,15 @@
+interface KnightTokenProps {
+  x: number;
+  y: number;
+  color: string;
+}
+
+// Knight guarding a hex against the barbarians, in its owner's colour
+export const KnightToken = ({ x, y, color }: KnightTokenProps) => (
+  <g transform={`translate(${x}, ${y})`} className="pointer-events-none">
+    <circle r="8" fill={color} stroke="#1e293b" strokeWidth="1.5" className="drop-shadow-md" />
+    <text y="1" textAnchor="middle" dominantBaseline="middle" fontSize="9" className="select-none">
+      ⚔️
+    </text>
+  </g>
+);
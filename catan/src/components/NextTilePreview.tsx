@@ -1,10 +1,11 @@
 import { TerrainType } from './GameBoard';
+import { Piece, getPieceCells } from '@/lib/game/pieces';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useIsMobile } from '@/hooks/use-mobile';
 
 interface NextTilePreviewProps {
-  nextTile: TerrainType | null;
-  upcomingTiles: TerrainType[];
+  nextPiece: Piece | null;
+  upcomingPieces: Piece[];
 }
 
 const TERRAIN_COLORS = {
@@ -40,51 +41,111 @@ const TERRAIN_NAMES = {
   gold: 'Gold'
 };
 
-export const NextTilePreview = ({ nextTile, upcomingTiles }: NextTilePreviewProps) => {
-  const isMobile = useIsMobile();
-  
-  const renderMiniHex = (terrain: TerrainType, size: number = 20) => {
-    const hexPath = () => {
-      const points = [];
-      for (let i = 0; i < 6; i++) {
-        const angle = (Math.PI / 3) * i - Math.PI / 6; // Flat-top hex
-        const pointX = size * Math.cos(angle);
-        const pointY = size * Math.sin(angle);
-        points.push(`${pointX},${pointY}`);
-      }
-      return `M ${points.join(' L ')} Z`;
-    };
+interface MiniHexProps {
+  terrain: TerrainType;
+  size?: number;
+}
 
-    return (
-      <svg 
-        width={size * 2.2} 
-        height={size * 2.2} 
-        viewBox={`-${size * 1.1} -${size * 1.1} ${size * 2.2} ${size * 2.2}`}
-        className="mx-auto"
+export const MiniHex = ({ terrain, size = 20 }: MiniHexProps) => {
+  const hexPath = () => {
+    const points = [];
+    for (let i = 0; i < 6; i++) {
+      const angle = (Math.PI / 3) * i - Math.PI / 6; // Flat-top hex
+      const pointX = size * Math.cos(angle);
+      const pointY = size * Math.sin(angle);
+      points.push(`${pointX},${pointY}`);
+    }
+    return `M ${points.join(' L ')} Z`;
+  };
+
+  return (
+    <svg 
+      width={size * 2.2} 
+      height={size * 2.2} 
+      viewBox={`-${size * 1.1} -${size * 1.1} ${size * 2.2} ${size * 2.2}`}
+      className="mx-auto"
+    >
+      <path
+        d={hexPath()}
+        fill={TERRAIN_COLORS[terrain]}
+        stroke="#4a3a28"
+        strokeWidth="1.5"
+      />
+      <text
+        x={0}
+        y={2}
+        textAnchor="middle"
+        dominantBaseline="middle"
+        fontSize={size * 0.6}
+        fill="white"
+        stroke="black"
+        strokeWidth="0.3"
+        className="pointer-events-none select-none"
       >
-        <path
-          d={hexPath()}
-          fill={TERRAIN_COLORS[terrain]}
-          stroke="#4a3a28"
-          strokeWidth="1.5"
-        />
-        <text
-          x={0}
-          y={2}
-          textAnchor="middle"
-          dominantBaseline="middle"
-          fontSize={size * 0.6}
-          fill="white"
-          stroke="black"
-          strokeWidth="0.3"
-          className="pointer-events-none select-none"
-        >
-          {TERRAIN_PATTERNS[terrain]}
-        </text>
-      </svg>
-    );
+        {TERRAIN_PATTERNS[terrain]}
+      </text>
+    </svg>
+  );
+};
+
+interface MiniPieceProps {
+  piece: Piece;
+  size?: number;
+}
+
+// Whole piece in its spawn orientation - a single MiniHex for one-hex pieces
+export const MiniPiece = ({ piece, size = 20 }: MiniPieceProps) => {
+  if (piece.cells.length === 1) return <MiniHex terrain={piece.cells[0].terrain} size={size} />;
+
+  const cells = getPieceCells(piece, { q: 0, r: 0 }, 0).map(cell => ({
+    terrain: cell.terrain,
+    x: size * 1.5 * cell.q,
+    y: size * (Math.sqrt(3) / 2 * cell.q + Math.sqrt(3) * cell.r)
+  }));
+  const minX = Math.min(...cells.map(c => c.x)) - size * 1.1;
+  const minY = Math.min(...cells.map(c => c.y)) - size * 1.1;
+  const width = Math.max(...cells.map(c => c.x)) + size * 1.1 - minX;
+  const height = Math.max(...cells.map(c => c.y)) + size * 1.1 - minY;
+
+  const hexPath = (x: number, y: number) => {
+    const points = [];
+    for (let i = 0; i < 6; i++) {
+      const angle = (Math.PI / 3) * i - Math.PI / 6; // Flat-top hex
+      points.push(`${x + size * Math.cos(angle)},${y + size * Math.sin(angle)}`);
+    }
+    return `M ${points.join(' L ')} Z`;
   };
 
+  return (
+    <svg width={width} height={height} viewBox={`${minX} ${minY} ${width} ${height}`} className="mx-auto">
+      {cells.map((cell, index) => (
+        <g key={index}>
+          <path d={hexPath(cell.x, cell.y)} fill={TERRAIN_COLORS[cell.terrain]} stroke="#4a3a28" strokeWidth="1.5" />
+          <text
+            x={cell.x}
+            y={cell.y + 2}
+            textAnchor="middle"
+            dominantBaseline="middle"
+            fontSize={size * 0.6}
+            fill="white"
+            stroke="black"
+            strokeWidth="0.3"
+            className="pointer-events-none select-none"
+          >
+            {TERRAIN_PATTERNS[cell.terrain]}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+// "Forest" for single tiles, "Forest + Hill" for multi-hex pieces
+const pieceName = (piece: Piece) => piece.cells.map(cell => TERRAIN_NAMES[cell.terrain]).join(' + ');
+
+export const NextTilePreview = ({ nextPiece, upcomingPieces }: NextTilePreviewProps) => {
+  const isMobile = useIsMobile();
+  
   // Mobile compact view
   if (isMobile) {
     return (
@@ -94,26 +155,26 @@ export const NextTilePreview = ({ nextTile, upcomingTiles }: NextTilePreviewProp
             <div className="text-xs font-medium text-muted-foreground">Next:</div>
             <div className="flex items-center gap-2">
               {/* Current/Next Tile */}
-              {nextTile && (
+              {nextPiece && (
                 <div className="flex items-center gap-1">
-                  {renderMiniHex(nextTile, 15)}
+                  <MiniPiece piece={nextPiece} size={nextPiece.cells.length > 1 ? 10 : 15} />
                   <span className="text-xs font-medium text-foreground">
-                    {TERRAIN_NAMES[nextTile]}
+                    {pieceName(nextPiece)}
                   </span>
                 </div>
               )}
               
               {/* Divider */}
-              {nextTile && upcomingTiles.length > 0 && (
+              {nextPiece && upcomingPieces.length > 0 && (
                 <div className="w-px h-8 bg-border/50" />
               )}
               
               {/* Upcoming Tiles */}
-              {upcomingTiles.length > 0 && (
+              {upcomingPieces.length > 0 && (
                 <div className="flex gap-1">
-                  {upcomingTiles.slice(0, 2).map((terrain, index) => (
+                  {upcomingPieces.slice(0, 2).map((piece, index) => (
                     <div key={index} className="opacity-60">
-                      {renderMiniHex(terrain, 12)}
+                      <MiniPiece piece={piece} size={piece.cells.length > 1 ? 8 : 12} />
                     </div>
                   ))}
                 </div>
@@ -133,25 +194,25 @@ export const NextTilePreview = ({ nextTile, upcomingTiles }: NextTilePreviewProp
       </CardHeader>
       <CardContent className="space-y-4">
         {/* Next Tile */}
-        {nextTile && (
+        {nextPiece && (
           <div className="text-center">
             <div className="mb-2">
-              {renderMiniHex(nextTile, 25)}
+              <MiniPiece piece={nextPiece} size={nextPiece.cells.length > 1 ? 18 : 25} />
             </div>
             <div className="text-sm font-medium text-foreground">
-              {TERRAIN_NAMES[nextTile]}
+              {pieceName(nextPiece)}
             </div>
           </div>
         )}
         
         {/* Upcoming Tiles Preview */}
-        {upcomingTiles.length > 0 && (
+        {upcomingPieces.length > 0 && (
           <div>
             <div className="text-xs text-muted-foreground text-center mb-2">Upcoming:</div>
-            <div className="flex justify-center gap-1">
-              {upcomingTiles.slice(0, 3).map((terrain, index) => (
+            <div className="flex justify-center items-center gap-1">
+              {upcomingPieces.slice(0, 3).map((piece, index) => (
                 <div key={index} className="opacity-75">
-                  {renderMiniHex(terrain, 15)}
+                  <MiniPiece piece={piece} size={piece.cells.length > 1 ? 10 : 15} />
                 </div>
               ))}
             </div>
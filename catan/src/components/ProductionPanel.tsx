@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { Dices } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Player } from '@/lib/game/players';
+import { RESOURCE_ICONS } from '@/lib/game/hex';
+import { DiceRoll, countResources } from '@/lib/game/production';
+import { countCommodities } from '@/lib/game/knights';
+
+interface ProductionPanelProps {
+  lastRoll: DiceRoll | null;
+  rollCounts: number[];
+  players: Player[];
+  // A 7 was rolled - no more rolls until the robber has moved
+  robberPending?: boolean;
+  // Gold grants are still being chosen
+  goldPending?: boolean;
+  onRoll: (times: number) => void;
+}
+
+const DICE_FACES = ['⚀', '⚁', '⚂', '⚃', '⚄', '⚅'];
+
+const COMMODITY_ICONS = {
+  paper: '📜',
+  cloth: '🧵',
+  coin: '🪙'
+};
+
+const MAX_BATCH = 1000;
+
+// Dice roll simulator for the finished island
+export const ProductionPanel = ({ lastRoll, rollCounts, players, robberPending = false, goldPending = false, onRoll }: ProductionPanelProps) => {
+  const [batchSize, setBatchSize] = useState('10');
+  const totalRolls = rollCounts.reduce((sum, count) => sum + count, 0);
+  const mostRolled = Math.max(1, ...rollCounts);
+  const batch = Math.max(1, Math.min(MAX_BATCH, Math.floor(Number(batchSize)) || 1));
+  const blocked = robberPending || goldPending;
+
+  return (
+    <Card className="bg-card/80 backdrop-blur-sm border-border/50 shadow-medieval">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg text-primary flex items-center justify-between">
+          Production
+          <span className="text-xs font-normal text-muted-foreground">{totalRolls} rolls</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Button variant="medieval" size="sm" onClick={() => onRoll(1)} disabled={blocked} className="flex items-center gap-1">
+            <Dices className="w-4 h-4" />
+            Roll
+          </Button>
+          <Input
+            type="number"
+            min={1}
+            max={MAX_BATCH}
+            value={batchSize}
+            onChange={(e) => setBatchSize(e.target.value)}
+            aria-label="Rolls per batch"
+            className="h-9 w-16 text-xs"
+          />
+          <Button variant="outline" size="sm" onClick={() => onRoll(batch)} disabled={blocked}>
+            Roll {batch}×
+          </Button>
+        </div>
+
+        {robberPending && (
+          <div className="text-xs text-destructive font-medium">Move the robber to a new hex before rolling again</div>
+        )}
+        {goldPending && (
+          <div className="text-xs text-primary font-medium">Choose your gold field resources before rolling again</div>
+        )}
+
+        {/* Last roll */}
+        {lastRoll && (
+          <div className="rounded-lg border border-border/30 p-2 text-xs space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-muted-foreground">
+                {lastRoll.times > 1 ? `Last of ${lastRoll.times} rolls` : 'Rolled'}
+                {lastRoll.total === 7 && ' - robber!'}
+              </span>
+              <span className="flex items-center gap-1 text-foreground font-semibold">
+                <span className="text-xl leading-none">{DICE_FACES[lastRoll.dice[0] - 1]}{DICE_FACES[lastRoll.dice[1] - 1]}</span>
+                = {lastRoll.total}
+              </span>
+            </div>
+            {lastRoll.gains.map((hand, player) => {
+              const commodities = Object.entries(lastRoll.commodities[player]).filter(([, count]) => count > 0);
+              const gold = lastRoll.gold[player] ?? 0;
+              const produced = countResources(hand) > 0 || commodities.length > 0 || gold > 0;
+              return (players.length > 1 || produced) && (
+                <div key={player} className="flex items-center gap-2">
+                  {players.length > 1 && (
+                    <span className="w-2.5 h-2.5 rounded-full border border-foreground/30 shrink-0" style={{ backgroundColor: players[player]?.color }} />
+                  )}
+                  <span className="text-muted-foreground">
+                    {!produced
+                      ? 'Nothing'
+                      : [
+                          ...Object.entries(hand).filter(([, count]) => count > 0).map(([resource, count]) => (
+                            `${RESOURCE_ICONS[resource as keyof typeof RESOURCE_ICONS]} +${count}`
+                          )),
+                          ...commodities.map(([commodity, count]) => (
+                            `${COMMODITY_ICONS[commodity as keyof typeof COMMODITY_ICONS]} +${count}`
+                          )),
+                          ...(gold > 0 ? [`💰 +${gold}`] : [])
+                        ].join('  ')}
+                  </span>
+                </div>
+              );
+            })}
+            {players.length === 1 && countResources(lastRoll.gains[0]) === 0 && countCommodities(lastRoll.commodities[0]) === 0 && !lastRoll.gold[0] && (
+              <div className="text-muted-foreground">No settlement produced</div>
+            )}
+          </div>
+        )}
+
+        {/* Distribution of totals */}
+        {totalRolls > 0 && (
+          <div className="flex items-end justify-between gap-0.5 h-16">
+            {rollCounts.slice(2).map((count, i) => (
+              <div key={i + 2} className="flex-1 flex flex-col items-center justify-end h-full">
+                <div
+                  className={`w-full rounded-t ${i + 2 === 7 ? 'bg-destructive/60' : 'bg-primary/60'}`}
+                  style={{ height: `${(count / mostRolled) * 100}%` }}
+                  title={`${i + 2}: ${count}`}
+                />
+                <span className="text-[9px] text-muted-foreground">{i + 2}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,45 @@
+interface RoadSegmentProps {
+  from: { x: number; y: number };
+  to: { x: number; y: number };
+  color: string;
+  // Dashed, clickable outline of an edge that can be built on
+  isCandidate?: boolean;
+  onClick?: () => void;
+}
+
+export const RoadSegment = ({ from, to, color, isCandidate, onClick }: RoadSegmentProps) => {
+  // Stop short of the intersections so settlements stay readable
+  const inset = 0.15;
+  const x1 = from.x + (to.x - from.x) * inset;
+  const y1 = from.y + (to.y - from.y) * inset;
+  const x2 = to.x - (to.x - from.x) * inset;
+  const y2 = to.y - (to.y - from.y) * inset;
+
+  if (isCandidate) {
+    return (
+      <g className="cursor-pointer group" onClick={onClick}>
+        {/* Wide transparent hit area */}
+        <line x1={x1} y1={y1} x2={x2} y2={y2} stroke="transparent" strokeWidth="12" />
+        <line
+          x1={x1}
+          y1={y1}
+          x2={x2}
+          y2={y2}
+          stroke={color}
+          strokeWidth="4"
+          strokeDasharray="4 3"
+          strokeLinecap="round"
+          opacity="0.5"
+          className="transition-opacity duration-200 group-hover:opacity-100"
+        />
+      </g>
+    );
+  }
+
+  return (
+    <g className="pointer-events-none">
+      <line x1={x1} y1={y1} x2={x2} y2={y2} stroke="#1e293b" strokeWidth="7" strokeLinecap="round" />
+      <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={color} strokeWidth="4.5" strokeLinecap="round" />
+    </g>
+  );
+};
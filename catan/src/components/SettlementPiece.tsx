@@ -0,0 +1,31 @@
+interface SettlementPieceProps {
+  x: number;
+  y: number;
+  color: string;
+  isCity?: boolean;
+}
+
+// Settlement or city standing on an intersection, in its owner's colour
+export const SettlementPiece = ({ x, y, color, isCity }: SettlementPieceProps) => {
+  return (
+    <g transform={`translate(${x}, ${y})`} className="pointer-events-none">
+      {isCity ? (
+        <polygon
+          points="-8,6 -8,-3 -2,-3 -2,-9 3,-13 8,-9 8,6"
+          fill={color}
+          stroke="#1e293b"
+          strokeWidth="1.5"
+          className="drop-shadow-md"
+        />
+      ) : (
+        <polygon
+          points="-6,6 -6,-2 0,-8 6,-2 6,6"
+          fill={color}
+          stroke="#1e293b"
+          strokeWidth="1.5"
+          className="drop-shadow-md"
+        />
+      )}
+    </g>
+  );
+};
@@ -0,0 +1,44 @@
+interface SettlementSpotProps {
+  x: number;
+  y: number;
+  pips: number;
+  onClick?: () => void;
+}
+
+// Open intersection during settlement placement, labelled with its pip sum
+export const SettlementSpot = ({ x, y, pips, onClick }: SettlementSpotProps) => {
+  // Same heat scale as the number tokens - 10+ pips is a premium spot
+  const getPipColor = (value: number) => {
+    if (value >= 10) return '#dc2626';
+    if (value >= 7) return '#ea580c';
+    if (value >= 4) return '#ca8a04';
+    return '#1e293b';
+  };
+
+  return (
+    <g className="cursor-pointer group" onClick={onClick}>
+      <circle
+        cx={x}
+        cy={y}
+        r="9"
+        fill="#fef3c7"
+        stroke={getPipColor(pips)}
+        strokeWidth="2"
+        opacity="0.9"
+        className="transition-all duration-200 group-hover:opacity-100"
+      />
+      <text
+        x={x}
+        y={y + 1}
+        textAnchor="middle"
+        dominantBaseline="middle"
+        fontSize="9"
+        fontWeight="bold"
+        fill={getPipColor(pips)}
+        className="pointer-events-none select-none"
+      >
+        {pips}
+      </text>
+    </g>
+  );
+};
@@ -7,6 +7,9 @@ interface TerrainTileProps {
   hasSettlement?: boolean;
   hasCity?: boolean;
   number?: number;
+  // Hotseat colour of the player who placed the tile
+  ownerColor?: string;
+  hasRobber?: boolean;
   onClick?: () => void;
 }
 
@@ -39,6 +42,8 @@ export const TerrainTile = ({
   hasSettlement, 
   hasCity, 
   number,
+  ownerColor,
+  hasRobber,
   onClick 
 }: TerrainTileProps) => {
   const hexSize = 30;
@@ -92,6 +97,19 @@ export const TerrainTile = ({
         />
       )}
       
+      {/* Owner marker */}
+      {terrain && ownerColor && (
+        <circle
+          cx={x + 17}
+          cy={y - 10}
+          r="5"
+          fill={ownerColor}
+          stroke="#1e293b"
+          strokeWidth="1.5"
+          className="pointer-events-none"
+        />
+      )}
+      
       {/* Terrain pattern/icon */}
       {terrain && (
         <text
@@ -148,6 +166,19 @@ export const TerrainTile = ({
         </g>
       )}
       
+      {/* Robber - blocks this hex's production */}
+      {hasRobber && (
+        <g transform={`translate(${x - 15}, ${y + 8})`} className="pointer-events-none drop-shadow-md">
+          <path
+            d="M -5,8 L -3,-1 Q -6,-4 -3,-6 L 3,-6 Q 6,-4 3,-1 L 5,8 Z"
+            fill="#374151"
+            stroke="#111827"
+            strokeWidth="1"
+          />
+          <circle cx="0" cy="-9" r="4" fill="#374151" stroke="#111827" strokeWidth="1" />
+        </g>
+      )}
+      
       {/* Settlement */}
       {hasSettlement && (
         <g transform={`translate(${x}, ${y - 10})`}>
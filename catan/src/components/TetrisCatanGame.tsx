@@ -1,33 +1,79 @@
 import { useState } from 'react';
 import { GameModeSelector, GameMode } from './GameModeSelector';
 import { GameBoard } from './GameBoard';
-import { GameStats } from './GameStats';
+import { GameStats, PlayerStats } from './GameStats';
+import { DailyResultsCard } from './DailyResultsCard';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Play, Pause, RotateCcw, Home } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Play, Pause, RotateCcw, Home, Dices, Users, Hash } from 'lucide-react';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { generateSeed, normalizeSeed } from '@/lib/game/rng';
+import { ScoreRule } from '@/lib/game/scoring';
+import { GameEndReason } from '@/lib/game/engine';
+import { DAILY_MODE_ID, DailyResult, getDailyDate, getDailySeed, saveDailyResult } from '@/lib/game/daily';
+import { addResources, countResources } from '@/lib/game/production';
+import { createEmptyResources, createPlayers } from '@/lib/game/players';
+import { NUMBER_PLACEMENT_LABELS, NumberPlacement } from '@/lib/game/numbers';
+import { DEFAULT_TARGET_POINTS } from '@/lib/game/modes';
+
+const createPlayerStats = (count: number): PlayerStats[] =>
+  createPlayers(count).map(player => ({
+    player,
+    victoryPoints: 0,
+    settlements: 0,
+    longestRoad: 0,
+    hasLongestRoad: false,
+    resources: createEmptyResources(),
+    gold: 0
+  }));
 
 export const TetrisCatanGame = () => {
   const [selectedMode, setSelectedMode] = useState<GameMode | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [resetTrigger, setResetTrigger] = useState(0);
+  const [seed, setSeed] = useState(() => generateSeed());
+  const [dailyResults, setDailyResults] = useState<{ today: DailyResult; history: DailyResult[] } | null>(null);
   const [gameStats, setGameStats] = useState({
     resources: { wood: 0, wheat: 0, ore: 0, sheep: 0, brick: 0 },
     victoryPoints: 0,
-    targetPoints: 10,
+    targetPoints: DEFAULT_TARGET_POINTS,
     settlements: 0,
     cities: 0,
-    longestRoad: 0
+    longestRoad: 0,
+    gold: 0,
+    scoreBreakdown: [] as ScoreRule[]
   });
+  // Hotseat - 1 is a regular solo game
+  const [playerCount, setPlayerCount] = useState(1);
+  const [playerStats, setPlayerStats] = useState<PlayerStats[]>(() => createPlayerStats(1));
+  const [currentPlayer, setCurrentPlayer] = useState(0);
+  const [numberPlacement, setNumberPlacement] = useState<NumberPlacement>('balanced');
   const isMobile = useIsMobile();
+  // The daily island is the same for everyone - its seed can't be rerolled
+  const isDaily = selectedMode?.id === DAILY_MODE_ID;
+
+  const handlePlayerCountChange = (count: number) => {
+    setPlayerCount(count);
+    setPlayerStats(createPlayerStats(count));
+    setCurrentPlayer(0);
+  };
 
   const handleModeSelect = (mode: GameMode) => {
     setSelectedMode(mode);
+    setSeed(mode.seed ?? generateSeed());
+    setGameStats(prev => ({ ...prev, targetPoints: mode.targetPoints ?? DEFAULT_TARGET_POINTS }));
+    setDailyResults(null);
+    handlePlayerCountChange(Math.min(playerCount, mode.maxPlayers));
+    if (!mode.spiralNumbers && numberPlacement === 'spiral') setNumberPlacement('balanced');
   };
 
   const handleStartGame = () => {
+    // An emptied seed field still needs something to play
+    if (!normalizeSeed(seed)) setSeed(generateSeed());
     setIsPlaying(true);
     setIsPaused(false);
   };
@@ -40,15 +86,21 @@ export const TetrisCatanGame = () => {
     setIsPlaying(false);
     setIsPaused(false);
     setResetTrigger(prev => prev + 1);
+    setSeed(selectedMode?.seed ?? generateSeed());
+    setDailyResults(null);
     // Reset game state
     setGameStats({
       resources: { wood: 0, wheat: 0, ore: 0, sheep: 0, brick: 0 },
       victoryPoints: 0,
-      targetPoints: selectedMode?.name.includes('Seafarers') ? 12 : 10,
+      targetPoints: selectedMode?.targetPoints ?? DEFAULT_TARGET_POINTS,
       settlements: 0,
       cities: 0,
-      longestRoad: 0
+      longestRoad: 0,
+      gold: 0,
+      scoreBreakdown: []
     });
+    setPlayerStats(createPlayerStats(playerCount));
+    setCurrentPlayer(0);
   };
 
   const handleBackToMenu = () => {
@@ -58,9 +110,21 @@ export const TetrisCatanGame = () => {
   };
 
   // Add this new function to handle game end
-  const handleGameEnd = () => {
+  const handleGameEnd = (reason: GameEndReason) => {
     setIsPlaying(false);
     setIsPaused(false);
+
+    // A game started before midnight no longer counts as today's island
+    if (isDaily && normalizeSeed(seed) === getDailySeed()) {
+      const today: DailyResult = {
+        date: getDailyDate(),
+        seed: normalizeSeed(seed),
+        score: gameStats.victoryPoints,
+        playedAt: Date.now(),
+        toppedOut: reason === 'topped-out'
+      };
+      setDailyResults({ today, history: saveDailyResult(today) });
+    }
   };
 
   // Mode selection screen
@@ -83,19 +147,83 @@ export const TetrisCatanGame = () => {
                 <Badge variant="secondary" className="text-xs sm:text-sm self-start sm:self-auto">
                   {selectedMode.maxPlayers}P • Size {selectedMode.mapSize}
                 </Badge>
+                {isPlaying && (
+                  <Badge variant="outline" className="text-xs sm:text-sm self-start sm:self-auto font-mono">
+                    Seed {normalizeSeed(seed)}
+                  </Badge>
+                )}
+                {/* Turn indicator */}
+                {isPlaying && playerCount > 1 && playerStats[currentPlayer] && (
+                  <Badge variant="outline" className="text-xs sm:text-sm self-start sm:self-auto flex items-center gap-1.5">
+                    <span
+                      className="w-2.5 h-2.5 sm:w-3 sm:h-3 rounded-full border border-foreground/30"
+                      style={{ backgroundColor: playerStats[currentPlayer].player.color }}
+                    />
+                    {playerStats[currentPlayer].player.name}'s turn
+                  </Badge>
+                )}
               </div>
               
               <div className="flex items-center gap-1 sm:gap-2">
                 {!isPlaying ? (
-                  <Button 
-                    variant="medieval" 
-                    size={isMobile ? "sm" : "lg"}
-                    onClick={handleStartGame}
-                    className="flex items-center gap-1 sm:gap-2 text-xs sm:text-base"
-                  >
-                    <Play className="w-3 h-3 sm:w-4 sm:h-4" />
-                    Start
-                  </Button>
+                  <>
+                    <Select value={String(playerCount)} onValueChange={(value) => handlePlayerCountChange(Number(value))}>
+                      <SelectTrigger className="h-8 sm:h-10 w-[4.5rem] sm:w-24 text-xs sm:text-sm" aria-label="Players">
+                        <Users className="w-3 h-3 sm:w-4 sm:h-4" />
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Array.from({ length: selectedMode.maxPlayers }, (_, i) => i + 1).map(count => (
+                          <SelectItem key={count} value={String(count)}>
+                            {count === 1 ? 'Solo' : `${count}P`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={numberPlacement} onValueChange={(value) => setNumberPlacement(value as NumberPlacement)}>
+                      <SelectTrigger className="h-8 sm:h-10 w-[4.5rem] sm:w-36 text-xs sm:text-sm" aria-label="Number placement">
+                        <Hash className="w-3 h-3 sm:w-4 sm:h-4" />
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(NUMBER_PLACEMENT_LABELS) as NumberPlacement[])
+                          .filter(placement => placement !== 'spiral' || selectedMode.spiralNumbers)
+                          .map(placement => (
+                            <SelectItem key={placement} value={placement}>
+                              {NUMBER_PLACEMENT_LABELS[placement]}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="flex items-center gap-1">
+                      <Input
+                        value={seed}
+                        onChange={(e) => setSeed(e.target.value)}
+                        readOnly={isDaily}
+                        placeholder="Seed"
+                        aria-label="Seed"
+                        className="h-8 sm:h-10 w-20 sm:w-28 font-mono uppercase text-xs sm:text-sm"
+                      />
+                      <Button
+                        variant="ghost"
+                        size={isMobile ? "sm" : "default"}
+                        onClick={() => setSeed(generateSeed())}
+                        disabled={isDaily}
+                        title="New random seed"
+                      >
+                        <Dices className="w-3 h-3 sm:w-4 sm:h-4" />
+                      </Button>
+                    </div>
+                    <Button 
+                      variant="medieval" 
+                      size={isMobile ? "sm" : "lg"}
+                      onClick={handleStartGame}
+                      className="flex items-center gap-1 sm:gap-2 text-xs sm:text-base"
+                    >
+                      <Play className="w-3 h-3 sm:w-4 sm:h-4" />
+                      Start
+                    </Button>
+                  </>
                 ) : (
                   <>
                     <Button 
@@ -137,35 +265,73 @@ export const TetrisCatanGame = () => {
           {/* Game Board with integrated layout */}
           <GameBoard 
             mapSize={selectedMode.mapSize} 
+            shape={selectedMode.shape}
             isPlaying={isPlaying && !isPaused} 
             tileCount={selectedMode.tileCount}
+            seed={normalizeSeed(seed)}
+            endless={selectedMode.endless}
+            multiHexPieces={selectedMode.multiHexPieces}
+            numberRules={selectedMode.numberRules}
+            numberRatios={selectedMode.numberRatios}
+            numberPlacement={numberPlacement}
+            harborSet={selectedMode.harbors}
+            harborSpacing={selectedMode.harborSpacing}
+            seafarers={selectedMode.seafarers}
+            citiesAndKnights={selectedMode.citiesAndKnights}
+            speedCurve={selectedMode.dropSpeed}
+            playerCount={playerCount}
             resetTrigger={resetTrigger}
             onGameEnd={handleGameEnd}
-            onTilePlaced={(terrain) => {
-              // Update game stats when tiles are placed - map terrain to resources
+            onScoreChange={(score) => {
               setGameStats(prev => ({
                 ...prev,
-                resources: {
-                  ...prev.resources,
-                  wood: terrain === 'forest' ? prev.resources.wood + 1 : prev.resources.wood,
-                  wheat: terrain === 'field' ? prev.resources.wheat + 1 : prev.resources.wheat,
-                  ore: terrain === 'mountain' ? prev.resources.ore + 1 : prev.resources.ore,
-                  sheep: terrain === 'pasture' ? prev.resources.sheep + 1 : prev.resources.sheep,
-                  brick: terrain === 'hill' ? prev.resources.brick + 1 : prev.resources.brick,
-                }
+                victoryPoints: score.total,
+                scoreBreakdown: score.breakdown
               }));
             }}
+            onPlayerScoresChange={(scores) => {
+              setPlayerStats(prev => prev.map((stats, i) => ({ ...stats, victoryPoints: scores[i]?.total ?? 0 })));
+            }}
+            onTurnChange={setCurrentPlayer}
+            onSettlementsChange={(settlements) => {
+              const cities = settlements.filter(s => s.isCity).length;
+              setGameStats(prev => ({ ...prev, settlements: settlements.length - cities, cities }));
+              setPlayerStats(prev => prev.map(stats => ({
+                ...stats,
+                settlements: settlements.filter(s => s.owner === stats.player.index).length
+              })));
+            }}
+            onRoadsChange={(longestRoads, holder) => {
+              setGameStats(prev => ({ ...prev, longestRoad: Math.max(0, ...longestRoads) }));
+              setPlayerStats(prev => prev.map(stats => ({
+                ...stats,
+                longestRoad: longestRoads[stats.player.index] ?? 0,
+                hasLongestRoad: holder === stats.player.index
+              })));
+            }}
+            onResourcesChange={(resources) => {
+              // Dice production - the island total plus each player's hand
+              setGameStats(prev => ({ ...prev, resources: resources.reduce(addResources, createEmptyResources()) }));
+              setPlayerStats(prev => prev.map((stats, i) => ({ ...stats, resources: resources[i] ?? createEmptyResources() })));
+            }}
+            onGoldChange={(goldTaken) => {
+              setGameStats(prev => ({ ...prev, gold: goldTaken.reduce((sum, hand) => sum + countResources(hand), 0) }));
+              setPlayerStats(prev => prev.map((stats, i) => ({ ...stats, gold: goldTaken[i] ? countResources(goldTaken[i]) : 0 })));
+            }}
           />
           
           {/* Stats Panel - Hidden on mobile during active gameplay */}
           {(!isMobile || !isPlaying) && (
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-2 sm:gap-4 md:gap-6">
               <div className="lg:col-span-1">
-                <GameStats {...gameStats} />
+                <GameStats {...gameStats} players={playerStats} currentPlayer={currentPlayer} />
               </div>
               
               {/* Game Status */}
-              <div className="lg:col-span-2">
+              <div className="lg:col-span-2 space-y-2 sm:space-y-4">
+                {dailyResults && (
+                  <DailyResultsCard today={dailyResults.today} history={dailyResults.history} />
+                )}
                 {isPlaying && (
                   <Card className="bg-card/60 backdrop-blur-sm border-border/30">
                     <CardContent className="p-2 sm:p-3 md:p-4">
@@ -0,0 +1,190 @@
+import type { GameState } from './engine';
+import { RESOURCE_TYPES, ResourceType, TERRAIN_RESOURCES, getAdjacentHexes, hexKey } from './hex';
+import { getPips } from './numbers';
+import { getIntersections, getVertexPips } from './settlements';
+
+// ========== BOARD ANALYSIS ==========
+// Grades the number layout of a finished island the way experienced players
+// judge a board: even production per resource, no hot spots and no numbers
+// stacked on top of each other.
+
+export interface BoardIssue {
+  id: string;
+  severity: 'warning' | 'info';
+  message: string;
+}
+
+export interface BoardAnalysis {
+  // 0-100, 100 is a flawless layout
+  score: number;
+  grade: 'A' | 'B' | 'C' | 'D';
+  pipsByResource: Record<ResourceType, number>;
+  sameNumberPairs: number;
+  redPairs: number;
+  // Largest group of touching 6s and 8s
+  largestRedCluster: number;
+  // Resources that have several hexes on one number
+  concentrations: Array<{ resource: ResourceType; number: number; hexes: number }>;
+  bestVertex: { key: string; pips: number } | null;
+  issues: BoardIssue[];
+}
+
+type AnalyzedBoard = Pick<GameState, 'hexes' | 'board' | 'numbers'>;
+
+const isRed = (n: number | undefined) => n === 6 || n === 8;
+
+// A corner worth more than this many pips dominates the game
+const HOT_SPOT_PIPS = 13;
+
+// Number tokens on the base game board - bigger islands have more pairs to
+// get wrong, so their penalties are scaled down to this size
+const BASE_BOARD_NUMBERS = 18;
+
+// Penalties taken off the 100 point score
+const PENALTY = {
+  redPair: 15,
+  sameNumberPair: 6,
+  concentration: 5,
+  hotSpotPip: 4,
+  // Per 10% pip spread between resources
+  spread: 4
+};
+
+// Every unordered pair of touching numbered hexes
+const getNumberedPairs = ({ numbers }: AnalyzedBoard): Array<[number, number]> => {
+  const pairs: Array<[number, number]> = [];
+  numbers.forEach((number, key) => {
+    const [q, r] = key.split(',').map(Number);
+    getAdjacentHexes(q, r).forEach(adj => {
+      const adjKey = hexKey(adj.q, adj.r);
+      const other = numbers.get(adjKey);
+      if (other !== undefined && key < adjKey) pairs.push([number, other]);
+    });
+  });
+  return pairs;
+};
+
+const getLargestRedCluster = ({ numbers }: AnalyzedBoard): number => {
+  const visited = new Set<string>();
+  let largest = 0;
+
+  numbers.forEach((number, key) => {
+    if (!isRed(number) || visited.has(key)) return;
+    let size = 0;
+    const stack = [key];
+    visited.add(key);
+    while (stack.length > 0) {
+      const [q, r] = stack.pop()!.split(',').map(Number);
+      size++;
+      getAdjacentHexes(q, r).forEach(adj => {
+        const adjKey = hexKey(adj.q, adj.r);
+        if (!visited.has(adjKey) && isRed(numbers.get(adjKey))) {
+          visited.add(adjKey);
+          stack.push(adjKey);
+        }
+      });
+    }
+    largest = Math.max(largest, size);
+  });
+
+  return largest;
+};
+
+export const analyzeBoard = (state: AnalyzedBoard): BoardAnalysis => {
+  const { board, numbers } = state;
+
+  // Pips and number spread per resource
+  const pipsByResource: Record<ResourceType, number> = { wood: 0, wheat: 0, ore: 0, sheep: 0, brick: 0 };
+  const numbersByResource = new Map<ResourceType, Map<number, number>>();
+  board.forEach((hex, key) => {
+    const resource = hex.terrain && TERRAIN_RESOURCES[hex.terrain];
+    const number = numbers.get(key);
+    if (!resource || number === undefined) return;
+    pipsByResource[resource] += getPips(number);
+    const counts = numbersByResource.get(resource) ?? new Map<number, number>();
+    counts.set(number, (counts.get(number) ?? 0) + 1);
+    numbersByResource.set(resource, counts);
+  });
+
+  const concentrations: BoardAnalysis['concentrations'] = [];
+  numbersByResource.forEach((counts, resource) => {
+    counts.forEach((hexes, number) => {
+      if (hexes > 1) concentrations.push({ resource, number, hexes });
+    });
+  });
+
+  const pairs = getNumberedPairs(state);
+  const sameNumberPairs = pairs.filter(([a, b]) => a === b && !isRed(a)).length;
+  const redPairs = pairs.filter(([a, b]) => isRed(a) && isRed(b)).length;
+  const largestRedCluster = getLargestRedCluster(state);
+
+  const bestVertex = getIntersections(state.hexes).reduce<BoardAnalysis['bestVertex']>((best, intersection) => {
+    const pips = getVertexPips(intersection, numbers);
+    return !best || pips > best.pips ? { key: intersection.key, pips } : best;
+  }, null);
+
+  // Coefficient of variation over the resources that are on the board
+  const present = RESOURCE_TYPES.filter(r => numbersByResource.has(r)).map(r => pipsByResource[r]);
+  const mean = present.reduce((sum, p) => sum + p, 0) / Math.max(1, present.length);
+  const spread = mean > 0
+    ? Math.sqrt(present.reduce((sum, p) => sum + (p - mean) ** 2, 0) / present.length) / mean
+    : 0;
+
+  const issues: BoardIssue[] = [];
+  if (redPairs > 0) {
+    issues.push({
+      id: 'red-pairs',
+      severity: 'warning',
+      message: `${redPairs} pair${redPairs === 1 ? '' : 's'} of 6/8 touching${largestRedCluster > 2 ? ` (cluster of ${largestRedCluster})` : ''}`
+    });
+  }
+  if (sameNumberPairs > 0) {
+    issues.push({
+      id: 'same-number',
+      severity: 'warning',
+      message: `${sameNumberPairs} pair${sameNumberPairs === 1 ? '' : 's'} of identical numbers touching`
+    });
+  }
+  concentrations.forEach(({ resource, number, hexes }) => {
+    issues.push({
+      id: `concentration-${resource}-${number}`,
+      severity: 'info',
+      message: `${hexes} ${resource} hexes share the number ${number}`
+    });
+  });
+  if (bestVertex && bestVertex.pips > HOT_SPOT_PIPS) {
+    issues.push({
+      id: 'hot-spot',
+      severity: 'warning',
+      message: `One corner produces ${bestVertex.pips} pips - a runaway starting spot`
+    });
+  }
+  if (spread > 0.3) {
+    issues.push({
+      id: 'spread',
+      severity: spread > 0.5 ? 'warning' : 'info',
+      message: `${Math.round(spread * 100)}% pip spread between resources`
+    });
+  }
+
+  const sizeScale = Math.min(1, BASE_BOARD_NUMBERS / Math.max(1, numbers.size));
+  const penalty =
+    (redPairs * PENALTY.redPair +
+      sameNumberPairs * PENALTY.sameNumberPair +
+      concentrations.reduce((sum, c) => sum + (c.hexes - 1) * PENALTY.concentration, 0)) * sizeScale +
+    Math.max(0, (bestVertex?.pips ?? 0) - HOT_SPOT_PIPS) * PENALTY.hotSpotPip +
+    Math.round(spread * 10) * PENALTY.spread;
+  const score = Math.max(0, Math.min(100, Math.round(100 - penalty)));
+
+  return {
+    score,
+    grade: score >= 90 ? 'A' : score >= 75 ? 'B' : score >= 60 ? 'C' : 'D',
+    pipsByResource,
+    sameNumberPairs,
+    redPairs,
+    largestRedCluster,
+    concentrations,
+    bestVertex,
+    issues
+  };
+};
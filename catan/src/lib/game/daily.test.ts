@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createDailyMode, getDailyDate, getDailySeed, loadDailyResults, saveDailyResult } from './daily';
+import { createGame } from './engine';
+
+const DAY = new Date(2026, 2, 7, 18, 30);
+
+describe('daily seed', () => {
+  it('is derived from the local date', () => {
+    expect(getDailyDate(DAY)).toBe('2026-03-07');
+    expect(getDailySeed(DAY)).toBe('DAILY-2026-03-07');
+    expect(getDailySeed(new Date(2026, 2, 7, 0, 1))).toBe(getDailySeed(DAY));
+    expect(getDailySeed(new Date(2026, 2, 8))).not.toBe(getDailySeed(DAY));
+  });
+
+  it('builds the same 19-tile bag for everyone on the same day', () => {
+    const mode = createDailyMode(DAY);
+    expect(createDailyMode(new Date(2026, 2, 7, 9))).toEqual(mode);
+    expect(Object.values(mode.tileCount).reduce((sum, count) => sum + count, 0)).toBe(19);
+    expect(mode.seed).toBe(getDailySeed(DAY));
+  });
+
+  it('deals the same tile sequence from the daily seed', () => {
+    const mode = createDailyMode(DAY);
+    const play = () => createGame({ mapSize: mode.mapSize, tileCount: mode.tileCount, seed: mode.seed });
+    expect(play().queue).toEqual(play().queue);
+  });
+});
+
+describe('daily results', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps the best score per day, newest day first', () => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value)
+    });
+
+    saveDailyResult({ date: '2026-03-06', seed: 'DAILY-2026-03-06', score: 4, playedAt: 1 });
+    saveDailyResult({ date: '2026-03-07', seed: 'DAILY-2026-03-07', score: 9, playedAt: 2 });
+    saveDailyResult({ date: '2026-03-07', seed: 'DAILY-2026-03-07', score: 5, playedAt: 3 });
+
+    expect(loadDailyResults().map(result => [result.date, result.score])).toEqual([['2026-03-07', 9], ['2026-03-06', 4]]);
+  });
+});
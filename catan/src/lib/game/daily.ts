@@ -0,0 +1,94 @@
+import type { GameMode, TileCount } from '@/components/GameModeSelector';
+import { createRng, hashSeed } from './rng';
+
+// ========== DAILY ISLAND ==========
+// Everything about the daily challenge is derived from the local date, so
+// every player gets the same bag and spawn order without any server.
+
+export const DAILY_MODE_ID = 'daily-island';
+
+const DAILY_STORAGE_KEY = 'tetris-catan:daily-results';
+
+export interface DailyResult {
+  date: string;
+  seed: string;
+  score: number;
+  playedAt: number;
+  toppedOut?: boolean;
+}
+
+export const getDailyDate = (date: Date = new Date()): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+export const getDailySeed = (date: Date = new Date()) => `DAILY-${getDailyDate(date)}`;
+
+// Base game bag with a few resources traded around, so each day has its own
+// flavour while still filling the 19-hex island exactly.
+const createDailyTileCount = (seed: string): TileCount => {
+  const rng = createRng(hashSeed(seed));
+  const tileCount: TileCount = {
+    field: 4,
+    forest: 4,
+    pasture: 4,
+    hill: 3,
+    mountain: 3,
+    desert: 1,
+    water: 0,
+    gold: 0
+  };
+  const resources: (keyof TileCount)[] = ['field', 'forest', 'pasture', 'hill', 'mountain'];
+
+  for (let i = 0; i < 2; i++) {
+    const from = rng.pick(resources.filter(r => tileCount[r] > 2));
+    const to = rng.pick(resources.filter(r => r !== from && tileCount[r] < 5));
+    tileCount[from]--;
+    tileCount[to]++;
+  }
+
+  return tileCount;
+};
+
+export const createDailyMode = (date: Date = new Date()): GameMode => {
+  const seed = getDailySeed(date);
+  return {
+    id: DAILY_MODE_ID,
+    name: 'Daily Island',
+    description: `Everyone plays the same island today (${getDailyDate(date)}).`,
+    mapSize: 2,
+    maxPlayers: 4,
+    features: ['Shared Tile Sequence', 'New Island Daily', 'Local Results'],
+    tileCount: createDailyTileCount(seed),
+    seed
+  };
+};
+
+// ========== RESULTS ==========
+export const loadDailyResults = (): DailyResult[] => {
+  try {
+    const raw = localStorage.getItem(DAILY_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+// Keeps the best score per day, newest day first
+export const saveDailyResult = (result: DailyResult): DailyResult[] => {
+  const existing = loadDailyResults();
+  const previous = existing.find(r => r.date === result.date);
+  const others = existing.filter(r => r.date !== result.date);
+  const best = previous && previous.score >= result.score ? previous : result;
+  const results = [best, ...others].sort((a, b) => b.date.localeCompare(a.date));
+
+  try {
+    localStorage.setItem(DAILY_STORAGE_KEY, JSON.stringify(results));
+  } catch {
+    // Storage full or disabled - results just won't persist
+  }
+  return results;
+};
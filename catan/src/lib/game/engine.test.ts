@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { GameState, createGame, step } from './engine';
+import { ROAD_SUPPLY, canPlaceRoad, getEdges, getRoadTurn } from './roads';
+import { canPlaceSettlement, getIntersections, getSettlementTurn } from './settlements';
+import { MAX_PLAYERS } from './players';
+import { ResourceType } from './hex';
+import { ROBBER_ROLL, canMoveRobber } from './production';
+import { TileCount } from '@/components/GameModeSelector';
+
+const BASE_TILES: TileCount = { field: 4, forest: 4, pasture: 4, hill: 3, mountain: 3, desert: 1, water: 0, gold: 0 };
+
+const dropAll = (state: GameState) => {
+  let game = state;
+  while (game.status === 'playing') game = step(game, { type: 'hardDrop' });
+  return game;
+};
+
+describe('createGame', () => {
+  it('keeps the player count within the available colours', () => {
+    expect(createGame({ mapSize: 2, tileCount: BASE_TILES, seed: 'MANY', playerCount: 12 }).playerCount).toBe(MAX_PLAYERS);
+    expect(createGame({ mapSize: 2, tileCount: BASE_TILES, seed: 'NONE', playerCount: 0 }).playerCount).toBe(1);
+  });
+});
+
+describe('game end', () => {
+  it('completes an island that is filled exactly', () => {
+    const game = dropAll(createGame({ mapSize: 2, tileCount: BASE_TILES, seed: 'FULL' }));
+    expect(game.status).toBe('complete');
+    expect(game.board.size).toBe(19);
+  });
+
+  it('completes a filled island even with tiles left in the bag', () => {
+    // The 18-hex ring with the 19-tile base bag
+    const game = dropAll(createGame({ mapSize: 2, shape: { type: 'ring' }, tileCount: BASE_TILES, seed: 'RING' }));
+    expect(game.status).toBe('complete');
+    expect(game.board.size).toBe(18);
+  });
+
+  it('fails a Seafarers layout that forms a single continent', () => {
+    // Without water in the bag nothing can split the land
+    const game = dropAll(createGame({ mapSize: 2, tileCount: BASE_TILES, seed: 'LAND', seafarers: true }));
+    expect(game.status).toBe('landlocked');
+  });
+
+  it('keeps a topped-out Seafarers game topped out', () => {
+    const game = dropAll(createGame({
+      mapSize: 2,
+      tileCount: { ...BASE_TILES, field: 8, forest: 8, pasture: 8, hill: 6, mountain: 6 },
+      seed: 'TOP',
+      seafarers: true,
+      multiHexPieces: true
+    }));
+    expect(game.board.size).toBeLessThan(19);
+    expect(game.status).toBe('topped-out');
+  });
+});
+
+describe('island phase', () => {
+  // Every player takes the first legal spot and edge on offer
+  const buildEverything = (state: GameState) => {
+    let game = state;
+    const intersections = getIntersections(game.hexes);
+    const edges = getEdges(intersections);
+    for (let turn = getSettlementTurn(game); turn !== null; turn = getSettlementTurn(game)) {
+      game = step(game, { type: 'placeSettlement', vertex: intersections.find(i => canPlaceSettlement(game, i)).key });
+      game = step(game, { type: 'placeRoad', edge: edges.find(e => canPlaceRoad(game, e, turn)).key });
+    }
+    for (let turn = getRoadTurn(game); turn !== null; turn = getRoadTurn(game)) {
+      const next = step(game, { type: 'placeRoad', edge: edges.find(e => canPlaceRoad(game, e, turn))?.key });
+      expect(next).not.toBe(game);
+      game = next;
+    }
+    return { game, edges };
+  };
+
+  it('skips players with no connected edge left until nobody can build', () => {
+    // Four networks crowd the base island, so some players are walled in
+    // before their supply runs out
+    const island = dropAll(createGame({ mapSize: 2, tileCount: BASE_TILES, seed: 'ROADS', playerCount: 4 }));
+    const { game, edges } = buildEverything(island);
+
+    const built = [0, 1, 2, 3].map(player => Array.from(game.roads.values()).filter(road => road.owner === player).length);
+    expect(built.some(count => count < ROAD_SUPPLY)).toBe(true);
+    [0, 1, 2, 3].forEach(player => {
+      expect(built[player] === ROAD_SUPPLY || !edges.some(edge => canPlaceRoad(game, edge, player))).toBe(true);
+    });
+  });
+
+  it('ends setup early once the island has no legal spot left', () => {
+    const tiny = createGame({
+      mapSize: 2,
+      shape: { type: 'custom', hexes: [{ q: 0, r: 0 }, { q: 0, r: 1 }] },
+      tileCount: { ...BASE_TILES, field: 2, forest: 0, pasture: 0, hill: 0, mountain: 0, desert: 0 },
+      seed: 'TINY',
+      playerCount: 4
+    });
+    const { game } = buildEverything(dropAll(tiny));
+    expect(game.settlements.size).toBeLessThan(8);
+    expect(getSettlementTurn(game)).toBeNull();
+  });
+
+  it('grants gold only as one of the five resources', () => {
+    const island = dropAll(createGame({ mapSize: 2, tileCount: BASE_TILES, seed: 'GOLD' }));
+    const pending = { ...island, goldPending: [1] };
+    expect(step(pending, { type: 'chooseGold', resource: 'gold' as ResourceType })).toBe(pending);
+    const chosen = step(pending, { type: 'chooseGold', resource: 'ore' });
+    expect(chosen.resources[0].ore).toBe(island.resources[0].ore + 1);
+    expect(chosen.goldPending).toEqual([0]);
+  });
+
+  it('holds the dice after a 7 until the robber has moved', () => {
+    let game = buildEverything(dropAll(createGame({ mapSize: 2, tileCount: BASE_TILES, seed: 'ROBBER' }))).game;
+    for (let i = 0; i < 100 && !game.robberPending; i++) game = step(game, { type: 'roll' });
+    expect(game.lastRoll.total).toBe(ROBBER_ROLL);
+    expect(step(game, { type: 'roll' })).toBe(game);
+
+    const target = Array.from(game.board.values()).find(hex => canMoveRobber(game, hex.q, hex.r));
+    const moved = step(game, { type: 'moveRobber', q: target.q, r: target.r });
+    expect(moved.robber).toEqual({ q: target.q, r: target.r });
+    expect(moved.robberPending).toBe(false);
+    expect(step(moved, { type: 'roll' })).not.toBe(moved);
+  });
+});
@@ -0,0 +1,692 @@
+import type { TileCount } from '@/components/GameModeSelector';
+import { Hex, HexCoord, RESOURCE_TYPES, ResourceType, TerrainType, addOceanFrame, generateCatanBoard, hexKey } from './hex';
+import {
+  BASE_NUMBER_RATIOS,
+  DEFAULT_NUMBER_RULES,
+  NumberPlacement,
+  NumberRatios,
+  NumberRule,
+  assignNumbers
+} from './numbers';
+import { clearHexes, findCompletedLines } from './lines';
+import { BoardShape } from './shapes';
+import { Rng, createRng, hashSeed, normalizeSeed } from './rng';
+import { Piece, PlacedCell, createPieceQueue, getPieceCells } from './pieces';
+import { Settlement, canPlaceSettlement, getIntersections, getSettlementTurn } from './settlements';
+import {
+  DiceRoll,
+  ROBBER_ROLL,
+  ResourceHand,
+  addResources,
+  canMoveRobber,
+  getCommodityProduction,
+  getGoldProduction,
+  getProduction,
+  placeRobber,
+  rollDice
+} from './production';
+import { MAX_PLAYERS, createEmptyResources } from './players';
+import {
+  BarbarianAttack,
+  CommodityHand,
+  addCommodities,
+  advanceBarbarians,
+  canPlaceKnight,
+  createEmptyCommodities
+} from './knights';
+import { BASE_HARBORS, DEFAULT_HARBOR_SPACING, Harbor, HarborSet, placeHarbors } from './harbors';
+import { formsArchipelago } from './islands';
+import {
+  Road,
+  canPlaceRoad,
+  getEdges,
+  getLongestRoad,
+  getLongestRoadHolder,
+  getNextRoadTurn,
+  getRoadTurn
+} from './roads';
+
+// Framework-free game rules. Every transition is a function of the previous
+// state, so a game can run headless, be replayed or be driven by React.
+
+// 'topped-out' - the island still had empty hexes but no column could take
+// the next tile
+// 'landlocked' - a Seafarers layout finished as a single continent, so no
+// islands were formed
+export type GameStatus = 'playing' | 'complete' | 'topped-out' | 'landlocked';
+
+export type GameEndReason = Exclude<GameStatus, 'playing'>;
+
+export interface TilePosition {
+  q: number;
+  r: number;
+}
+
+export interface LineClear {
+  rows: number[];
+  rings: number[];
+  points: number;
+  combo: number;
+}
+
+export interface GameState {
+  mapSize: number;
+  // Endless mode removes completed lines instead of just rewarding them
+  clearsLines: boolean;
+  seed: string;
+  // Mulberry32 state - advances with every random decision
+  rngState: number;
+  hexes: Hex[];
+  board: Map<string, Hex>;
+  // queue[0] is the falling piece, queue[1] the next one
+  queue: Piece[];
+  // Held pieces stay counted in remainingTiles until they are placed
+  heldPiece: Piece | null;
+  // One hold per drop - reset when a tile locks in
+  canHold: boolean;
+  remainingTiles: Record<TerrainType, number>;
+  // Pivot cell of the falling piece
+  position: TilePosition;
+  // Degrees, multiples of 60 - turns the footprint of multi-hex pieces
+  rotation: number;
+  numbers: Map<string, number>;
+  numberPlacement: NumberPlacement;
+  // Token frequencies, scaled to however many hexes need a number
+  numberRatios: NumberRatios;
+  // Layout rules for the number tokens, and the ones the island could not meet
+  numberRules: NumberRule[];
+  unmetNumberRules: NumberRule[];
+  placedCount: number;
+  lastPlaced: PlacedCell[];
+  linesCleared: number;
+  // Consecutive placements that completed at least one line
+  combo: number;
+  maxCombo: number;
+  clearPoints: number;
+  lastClear: LineClear | null;
+  // Hotseat - players take turns dropping pieces from the shared bag
+  playerCount: number;
+  currentPlayer: number;
+  // Line clears are credited to the player whose piece completed them
+  playerLinesCleared: number[];
+  playerClearPoints: number[];
+  // Starting settlements, placed on intersections once the island is finished
+  settlements: Map<string, Settlement>;
+  roads: Map<string, Road>;
+  // Whose turn it is to extend their network once setup is over - null during
+  // setup and once nobody can build
+  roadTurn: number | null;
+  // Longest trail per player, and who holds the Longest Road bonus
+  longestRoads: number[];
+  longestRoadHolder: number | null;
+  // Production simulation on the finished island
+  resources: ResourceHand[];
+  // How often each total came up, indexed by the dice total
+  rollCounts: number[];
+  lastRoll: DiceRoll | null;
+  // Blocks the hex it stands on; after a 7 it must move before rolling again
+  robber: HexCoord | null;
+  robberPending: boolean;
+  // Gold field grants still waiting for a resource choice, and the resources
+  // chosen so far - rolling waits until every grant is chosen
+  goldPending: number[];
+  goldTaken: ResourceHand[];
+  // Placed along the coast once the island is finished
+  harbors: Harbor[];
+  harborSet: HarborSet;
+  harborSpacing: number;
+  // Seafarers placement - an ocean frame around the board and island scoring
+  seafarers: boolean;
+  // Cities & Knights - the barbarian track moves with every piece, knights
+  // stand on the board's hexes and cities produce commodities
+  citiesAndKnights: boolean;
+  barbarianPosition: number;
+  barbarianAttacks: BarbarianAttack[];
+  commodities: CommodityHand[];
+  status: GameStatus;
+}
+
+export type GameAction =
+  | { type: 'move'; direction: -1 | 1 }
+  | { type: 'moveTo'; q: number; r: number }
+  | { type: 'rotate' }
+  | { type: 'hold' }
+  | { type: 'softDrop' }
+  | { type: 'hardDrop' }
+  | { type: 'tick' }
+  | { type: 'place'; q: number; r: number }
+  | { type: 'placeSettlement'; vertex: string }
+  | { type: 'placeRoad'; edge: string }
+  | { type: 'roll'; times?: number }
+  | { type: 'moveRobber'; q: number; r: number }
+  | { type: 'placeKnight'; q: number; r: number }
+  | { type: 'chooseGold'; resource: ResourceType };
+
+export interface GameConfig {
+  mapSize: number;
+  tileCount: TileCount;
+  seed: string;
+  clearsLines?: boolean;
+  multiHexPieces?: boolean;
+  playerCount?: number;
+  numberPlacement?: NumberPlacement;
+  numberRatios?: NumberRatios;
+  numberRules?: NumberRule[];
+  harborSet?: HarborSet;
+  harborSpacing?: number;
+  seafarers?: boolean;
+  citiesAndKnights?: boolean;
+  shape?: BoardShape;
+}
+
+export const createEmptyTileCounts = (): Record<TerrainType, number> => ({
+  field: 0,
+  forest: 0,
+  pasture: 0,
+  hill: 0,
+  mountain: 0,
+  desert: 0,
+  water: 0,
+  gold: 0
+});
+
+// ========== TILE BAG ==========
+export const createTileBag = (counts: TileCount, rng: Rng): TerrainType[] => {
+  const bag: TerrainType[] = [];
+
+  // Add tiles based on counts
+  for (let i = 0; i < counts.field; i++) bag.push('field');
+  for (let i = 0; i < counts.forest; i++) bag.push('forest');
+  for (let i = 0; i < counts.pasture; i++) bag.push('pasture');
+  for (let i = 0; i < counts.hill; i++) bag.push('hill');
+  for (let i = 0; i < counts.mountain; i++) bag.push('mountain');
+  for (let i = 0; i < counts.desert; i++) bag.push('desert');
+  for (let i = 0; i < counts.water; i++) bag.push('water');
+  for (let i = 0; i < counts.gold; i++) bag.push('gold');
+
+  return rng.shuffle(bag);
+};
+
+// ========== SELECTORS ==========
+export const getCurrentPiece = (state: GameState): Piece | null => state.queue[0] ?? null;
+
+export const getNextPiece = (state: GameState): Piece | null => state.queue[1] ?? null;
+
+// Show next 3 pieces after current and next
+export const getUpcomingPieces = (state: GameState): Piece[] => state.queue.slice(2, 5);
+
+export const hasMoreTiles = (state: GameState) => state.queue.length > 1 || state.heldPiece !== null;
+
+// Cells of the falling piece at its current position and rotation
+export const getFallingCells = (state: GameState): PlacedCell[] => {
+  const piece = getCurrentPiece(state);
+  return piece ? getPieceCells(piece, state.position, state.rotation) : [];
+};
+
+const getLandHexes = (state: GameState) => state.hexes.filter(h => !h.isWater);
+
+const getTopRow = (state: GameState) => Math.min(...getLandHexes(state).map(h => h.r));
+
+const isOccupied = (state: GameState, q: number, r: number) => !!state.board.get(hexKey(q, r))?.terrain;
+
+export const isValidPosition = (state: GameState, q: number, r: number): boolean => {
+  const hex = state.hexes.find(h => h.q === q && h.r === r);
+  return hex !== undefined && !hex.isWater;
+};
+
+// ========== COLLISION ==========
+// A cell is free when it floats above its column's top hex, or sits on an
+// empty land hex. Pieces fall through gaps in the shape (a ring's lake) to the
+// land below. Columns without land and anything below the board block.
+const isCellFree = (state: GameState, q: number, r: number): boolean => {
+  const column = getLandHexes(state).filter(h => h.q === q);
+  if (column.length === 0) return false;
+  if (r < Math.min(...column.map(h => h.r))) return true;
+  if (r > Math.max(...column.map(h => h.r))) return false;
+  if (!column.some(h => h.r === r)) return true;
+  return !isOccupied(state, q, r);
+};
+
+const fits = (state: GameState, piece: Piece, position: TilePosition, rotation: number) =>
+  getPieceCells(piece, position, rotation).every(cell => isCellFree(state, cell.q, cell.r));
+
+// Every cell on an empty land hex - the piece may lock in here
+const canLock = (state: GameState, piece: Piece, position: TilePosition, rotation: number) =>
+  getPieceCells(piece, position, rotation).every(cell =>
+    isValidPosition(state, cell.q, cell.r) && !isOccupied(state, cell.q, cell.r)
+  );
+
+// ========== LANDING ==========
+// Drops the piece straight down column q from above the board and returns the
+// pivot row it settles on, or null when the column rejects the drop (no land,
+// full up to the top, or the piece would stick out above the board).
+export const findLandingRow = (state: GameState, q: number, piece: Piece, rotation: number): number | null => {
+  const cells = getPieceCells(piece, { q: 0, r: 0 }, rotation);
+  const top = getTopRow(state) - 1 - Math.max(...cells.map(cell => cell.r));
+  if (!fits(state, piece, { q, r: top }, rotation)) return null;
+
+  let r = top;
+  while (fits(state, piece, { q, r: r + 1 }, rotation)) r++;
+
+  // Stopped inside a gap in the shape - it settles on the last land it fell past
+  while (r > top && !canLock(state, piece, { q, r }, rotation)) r--;
+
+  return canLock(state, piece, { q, r }, rotation) ? r : null;
+};
+
+// Where the falling piece would lock in right now - drives hard drop, gravity
+// and the ghost preview. Null while the piece hovers over a blocked column.
+export const getLandingPosition = (state: GameState): TilePosition | null => {
+  const piece = getCurrentPiece(state);
+  if (state.status !== 'playing' || !piece) return null;
+  const r = findLandingRow(state, state.position.q, piece, state.rotation);
+  return r === null ? null : { q: state.position.q, r };
+};
+
+// ========== SPAWN POSITIONS ==========
+// One spawn per column that can still take the piece, above the board
+export const getSpawnPositions = (state: GameState, piece: Piece, rotation: number): TilePosition[] => {
+  const landHexes = getLandHexes(state);
+  const cells = getPieceCells(piece, { q: 0, r: 0 }, rotation);
+  const spawnRow = Math.min(getTopRow(state) - 2, getTopRow(state) - 1 - Math.max(...cells.map(cell => cell.r)));
+  const openColumns = Array.from(new Set(landHexes.map(h => h.q)))
+    .filter(q => findLandingRow(state, q, piece, rotation) !== null);
+  return openColumns.map(q => ({ q, r: spawnRow }));
+};
+
+const finishGame = (state: GameState, status: GameEndReason, rng: Rng): GameState => {
+  const { numbers, unmetRules } = assignNumbers(
+    state.board,
+    { ratios: state.numberRatios, placement: state.numberPlacement, rules: state.numberRules },
+    rng
+  );
+  return {
+    ...state,
+    numbers,
+    unmetNumberRules: unmetRules,
+    robber: placeRobber(state.board, rng),
+    harbors: placeHarbors(state, state.harborSet, state.harborSpacing, rng),
+    // A finished Seafarers layout is only valid once the sea has split the
+    // land - a topped-out one stays topped out
+    status: status === 'complete' && state.seafarers && !formsArchipelago(state.board) ? 'landlocked' : status
+  };
+};
+
+const spawnTile = (state: GameState, rng: Rng): GameState => {
+  const piece = getCurrentPiece(state);
+  if (!piece) return state;
+
+  // Prefer the unrotated piece, but a piece that only fits turned still counts
+  for (let rotation = 0; rotation < 360; rotation += 60) {
+    const spawnPositions = getSpawnPositions(state, piece, rotation);
+    if (spawnPositions.length > 0) {
+      return { ...state, position: rng.pick(spawnPositions), rotation };
+    }
+  }
+
+  // Nowhere to drop the next tile - spare tiles in the bag don't matter once
+  // every land hex is filled
+  const isFull = getLandHexes(state).every(h => isOccupied(state, h.q, h.r));
+  return finishGame(state, isFull ? 'complete' : 'topped-out', rng);
+};
+
+// ========== GAME CREATION ==========
+export const createGame = (config: GameConfig): GameState => {
+  const seed = normalizeSeed(config.seed);
+  const rng = createRng(hashSeed(seed));
+  const playerCount = Math.min(MAX_PLAYERS, Math.max(1, config.playerCount ?? 1));
+  const state: GameState = {
+    mapSize: config.mapSize,
+    clearsLines: config.clearsLines ?? false,
+    seed,
+    rngState: 0,
+    hexes: config.seafarers
+      ? addOceanFrame(generateCatanBoard(config.mapSize, config.shape))
+      : generateCatanBoard(config.mapSize, config.shape),
+    board: new Map(),
+    queue: createPieceQueue(createTileBag(config.tileCount, rng), rng, config.multiHexPieces ?? false),
+    heldPiece: null,
+    canHold: true,
+    remainingTiles: { ...config.tileCount },
+    position: { q: 0, r: 0 },
+    rotation: 0,
+    numbers: new Map(),
+    numberPlacement: config.numberPlacement ?? 'balanced',
+    numberRatios: config.numberRatios ?? BASE_NUMBER_RATIOS,
+    numberRules: config.numberRules ?? DEFAULT_NUMBER_RULES,
+    unmetNumberRules: [],
+    placedCount: 0,
+    lastPlaced: [],
+    linesCleared: 0,
+    combo: 0,
+    maxCombo: 0,
+    clearPoints: 0,
+    lastClear: null,
+    playerCount,
+    currentPlayer: 0,
+    playerLinesCleared: Array(playerCount).fill(0),
+    playerClearPoints: Array(playerCount).fill(0),
+    settlements: new Map(),
+    roads: new Map(),
+    roadTurn: null,
+    longestRoads: Array(playerCount).fill(0),
+    longestRoadHolder: null,
+    resources: Array.from({ length: playerCount }, createEmptyResources),
+    rollCounts: Array(13).fill(0),
+    lastRoll: null,
+    robber: null,
+    robberPending: false,
+    goldPending: Array(playerCount).fill(0),
+    goldTaken: Array.from({ length: playerCount }, createEmptyResources),
+    harbors: [],
+    harborSet: config.harborSet ?? BASE_HARBORS,
+    harborSpacing: config.harborSpacing ?? DEFAULT_HARBOR_SPACING,
+    seafarers: config.seafarers ?? false,
+    citiesAndKnights: config.citiesAndKnights ?? false,
+    barbarianPosition: 0,
+    barbarianAttacks: [],
+    commodities: Array.from({ length: playerCount }, createEmptyCommodities),
+    status: 'playing'
+  };
+
+  return { ...spawnTile(state, rng), rngState: rng.getState() };
+};
+
+// ========== TRANSITIONS ==========
+const placePiece = (state: GameState, position: TilePosition, rng: Rng): GameState => {
+  const piece = getCurrentPiece(state);
+  // Off the board or onto another tile - the placement is rejected
+  if (!piece || !canLock(state, piece, position, state.rotation)) return state;
+
+  const placed = getPieceCells(piece, position, state.rotation);
+  let board = new Map(state.board);
+  const remainingTiles = { ...state.remainingTiles };
+  placed.forEach(cell => {
+    board.set(hexKey(cell.q, cell.r), { q: cell.q, r: cell.r, terrain: cell.terrain, owner: state.currentPlayer });
+    remainingTiles[cell.terrain] = Math.max(0, remainingTiles[cell.terrain] - 1);
+  });
+
+  // Line clears - each line is worth a point, chained placements add the combo on top
+  const rows = new Set<number>();
+  const rings = new Set<number>();
+  const clearedKeys = new Set<string>();
+  placed.forEach(cell => {
+    const completed = findCompletedLines(state.hexes, board, cell);
+    completed.rows.forEach(row => rows.add(row));
+    completed.rings.forEach(ring => rings.add(ring));
+    completed.keys.forEach(key => clearedKeys.add(key));
+  });
+  const lineCount = rows.size + rings.size;
+  const combo = lineCount > 0 ? state.combo + 1 : 0;
+  const lastClear: LineClear | null = lineCount > 0
+    ? { rows: Array.from(rows), rings: Array.from(rings), points: lineCount + combo - 1, combo }
+    : null;
+  if (lastClear && state.clearsLines) {
+    board = clearHexes(state.hexes, board, Array.from(clearedKeys));
+  }
+
+  // A held piece is the very last one played once the bag runs dry
+  const queue = state.queue.slice(1);
+  const heldPiece = queue.length === 0 ? null : state.heldPiece;
+  if (queue.length === 0 && state.heldPiece) queue.push(state.heldPiece);
+
+  const player = state.currentPlayer;
+  const points = lastClear?.points ?? 0;
+  const next: GameState = {
+    ...state,
+    board,
+    queue,
+    heldPiece,
+    canHold: true,
+    remainingTiles,
+    placedCount: state.placedCount + 1,
+    lastPlaced: placed,
+    linesCleared: state.linesCleared + lineCount,
+    combo,
+    maxCombo: Math.max(state.maxCombo, combo),
+    clearPoints: state.clearPoints + points,
+    lastClear,
+    currentPlayer: (player + 1) % state.playerCount,
+    playerLinesCleared: state.playerLinesCleared.map((lines, i) => (i === player ? lines + lineCount : lines)),
+    playerClearPoints: state.playerClearPoints.map((total, i) => (i === player ? total + points : total)),
+    ...(state.citiesAndKnights ? advanceBarbarians({ ...state, board }) : {})
+  };
+
+  if (next.queue.length > 0) return spawnTile(next, rng);
+
+  // That was the last tile - the island is complete
+  return finishGame(next, 'complete', rng);
+};
+
+// Swaps the falling piece with the held one (or stores it and pulls the next
+// piece from the bag) and restarts the drop from the top.
+const holdPiece = (state: GameState, rng: Rng): GameState => {
+  const current = getCurrentPiece(state);
+  if (!current || !state.canHold) return state;
+
+  const rest = state.queue.slice(1);
+  if (!state.heldPiece && rest.length === 0) return state;
+
+  const queue = state.heldPiece ? [state.heldPiece, ...rest] : rest;
+  return spawnTile({ ...state, queue, heldPiece: current, canHold: false }, rng);
+};
+
+const moveTile = (state: GameState, direction: -1 | 1): GameState => {
+  const piece = getCurrentPiece(state);
+  const position = { q: state.position.q + direction, r: state.position.r };
+  if (!piece || !fits(state, piece, position, state.rotation)) return state;
+  return { ...state, position };
+};
+
+// Turns the piece 60°, nudging it one column sideways if it would collide
+const rotatePiece = (state: GameState): GameState => {
+  const piece = getCurrentPiece(state);
+  if (!piece) return state;
+
+  const rotation = (state.rotation + 60) % 360;
+  for (const kick of [0, -1, 1]) {
+    const position = { q: state.position.q + kick, r: state.position.r };
+    if (fits(state, piece, position, rotation)) return { ...state, position, rotation };
+  }
+  return state;
+};
+
+const dropOneRow = (state: GameState, rng: Rng): GameState => {
+  // Blocked column - the piece hovers until it is moved elsewhere
+  const landing = getLandingPosition(state);
+  if (!landing) return state;
+
+  // Reached or passed the landing row - lock the piece in
+  const { q, r } = state.position;
+  if (r + 1 >= landing.r) return placePiece(state, landing, rng);
+
+  return { ...state, position: { q, r: r + 1 } };
+};
+
+// A knight joins the current player's guard - placing one does not end the turn
+const placeKnight = (state: GameState, q: number, r: number): GameState => {
+  if (!canPlaceKnight(state, state.currentPlayer, q, r)) return state;
+  const key = hexKey(q, r);
+  const board = new Map(state.board);
+  board.set(key, { ...board.get(key)!, knight: state.currentPlayer });
+  return { ...state, board };
+};
+
+// Setup phase - players take turns in snake order, the distance rule applies.
+// With Cities & Knights every player's second placement is a city.
+const placeSettlement = (state: GameState, vertex: string): GameState => {
+  const owner = getSettlementTurn(state);
+  const intersection = getIntersections(state.hexes).find(i => i.key === vertex);
+  if (owner === null || !intersection || !canPlaceSettlement(state, intersection)) return state;
+
+  const isCity = state.citiesAndKnights && Array.from(state.settlements.values()).some(s => s.owner === owner);
+  const settlements = new Map(state.settlements);
+  settlements.set(vertex, { vertex, owner, isCity });
+  return { ...state, settlements };
+};
+
+const placeRoad = (state: GameState, edgeKey: string): GameState => {
+  const owner = getRoadTurn(state);
+  const edge = getEdges(getIntersections(state.hexes)).find(e => e.key === edgeKey);
+  if (owner === null || !edge || !canPlaceRoad(state, edge, owner)) return state;
+
+  const roads = new Map(state.roads);
+  roads.set(edge.key, { edge: edge.key, vertices: edge.vertices, owner });
+  const next = { ...state, roads };
+  const longestRoads = next.longestRoads.map((_, player) => getLongestRoad(next, player));
+  // Free building starts with the first player once the last setup road is down
+  const isSetupRoad = state.roads.size < state.settlements.size;
+  const roadTurn = getSettlementTurn(next) !== null
+    ? null
+    : getNextRoadTurn(next, isSetupRoad ? state.playerCount - 1 : owner);
+  return {
+    ...next,
+    roadTurn,
+    longestRoads,
+    longestRoadHolder: getLongestRoadHolder(longestRoads, state.longestRoadHolder)
+  };
+};
+
+export const hasGoldPending = (state: Pick<GameState, 'goldPending'>) => state.goldPending.some(count => count > 0);
+
+// Rolls the dice `times` times and pays out every roll. A 7 or a gold payout
+// ends the batch early - nothing is produced until the robber has moved and
+// the gold has been chosen.
+const rollProduction = (state: GameState, times: number, rng: Rng): GameState => {
+  if (times < 1 || state.robberPending || hasGoldPending(state)) return state;
+
+  const rollCounts = [...state.rollCounts];
+  let resources = state.resources;
+  let commodities = state.commodities;
+  let batchGains = state.resources.map(() => createEmptyResources());
+  let batchCommodities = state.commodities.map(() => createEmptyCommodities());
+  let goldPending = state.goldPending;
+  let dice: [number, number] = [0, 0];
+  let rolled = 0;
+
+  while (rolled < times) {
+    dice = rollDice(rng);
+    rolled++;
+    const total = dice[0] + dice[1];
+    rollCounts[total]++;
+    if (total === ROBBER_ROLL) break;
+
+    const gains = getProduction(state, total);
+    resources = resources.map((hand, player) => addResources(hand, gains[player]));
+    batchGains = batchGains.map((hand, player) => addResources(hand, gains[player]));
+
+    const commodityGains = getCommodityProduction(state, total);
+    commodities = commodities.map((hand, player) => addCommodities(hand, commodityGains[player]));
+    batchCommodities = batchCommodities.map((hand, player) => addCommodities(hand, commodityGains[player]));
+
+    goldPending = getGoldProduction(state, total);
+    if (goldPending.some(count => count > 0)) break;
+  }
+
+  return {
+    ...state,
+    resources,
+    commodities,
+    rollCounts,
+    lastRoll: {
+      dice,
+      total: dice[0] + dice[1],
+      gains: batchGains,
+      commodities: batchCommodities,
+      gold: goldPending,
+      times: rolled
+    },
+    robberPending: dice[0] + dice[1] === ROBBER_ROLL,
+    goldPending
+  };
+};
+
+// The first player still holding a gold grant takes one resource
+const chooseGold = (state: GameState, resource: ResourceType): GameState => {
+  const player = state.goldPending.findIndex(count => count > 0);
+  // Actions can come from anywhere - anything but a resource is ignored
+  if (player === -1 || !RESOURCE_TYPES.includes(resource)) return state;
+  const grant = { ...createEmptyResources(), [resource]: 1 };
+  return {
+    ...state,
+    resources: state.resources.map((hand, i) => (i === player ? addResources(hand, grant) : hand)),
+    goldTaken: state.goldTaken.map((hand, i) => (i === player ? addResources(hand, grant) : hand)),
+    goldPending: state.goldPending.map((count, i) => (i === player ? count - 1 : count))
+  };
+};
+
+const moveRobber = (state: GameState, q: number, r: number): GameState => {
+  if (!state.robberPending || !canMoveRobber(state, q, r)) return state;
+  return { ...state, robber: { q, r }, robberPending: false };
+};
+
+const applyAction = (state: GameState, action: GameAction, rng: Rng): GameState => {
+  switch (action.type) {
+    case 'move':
+      return moveTile(state, action.direction);
+
+    case 'moveTo': {
+      const piece = getCurrentPiece(state);
+      const position = { q: action.q, r: action.r };
+      if (!piece || !canLock(state, piece, position, state.rotation)) return state;
+      return { ...state, position };
+    }
+
+    case 'rotate':
+      return rotatePiece(state);
+
+    case 'hold':
+      return holdPiece(state, rng);
+
+    case 'tick':
+    case 'softDrop':
+      return dropOneRow(state, rng);
+
+    case 'hardDrop': {
+      const landing = getLandingPosition(state);
+      return landing ? placePiece(state, landing, rng) : state;
+    }
+
+    case 'place':
+      return placePiece(state, { q: action.q, r: action.r }, rng);
+
+    case 'placeKnight':
+      return placeKnight(state, action.q, action.r);
+
+    default:
+      return state;
+  }
+};
+
+// Actions on the finished island - building and production
+const applyIslandAction = (state: GameState, action: GameAction, rng: Rng): GameState => {
+  switch (action.type) {
+    case 'placeSettlement':
+      return placeSettlement(state, action.vertex);
+
+    case 'placeRoad':
+      return placeRoad(state, action.edge);
+
+    case 'roll':
+      return rollProduction(state, action.times ?? 1, rng);
+
+    case 'moveRobber':
+      return moveRobber(state, action.q, action.r);
+
+    case 'chooseGold':
+      return chooseGold(state, action.resource);
+
+    default:
+      return state;
+  }
+};
+
+export const step = (state: GameState, action: GameAction): GameState => {
+  if (state.status === 'playing' && !getCurrentPiece(state)) return state;
+
+  const rng = createRng(state.rngState);
+  const next = state.status === 'playing'
+    ? applyAction(state, action, rng)
+    : applyIslandAction(state, action, rng);
+  return next === state ? state : { ...next, rngState: rng.getState() };
+};
@@ -0,0 +1,27 @@
+import type { GameState } from './engine';
+
+// ========== BOARD EXPORT ==========
+// A finished island as JSON: every built hex with its number token, the
+// robber and the harbors around the coast
+
+type ExportState = Pick<GameState, 'seed' | 'mapSize' | 'board' | 'numbers' | 'robber' | 'harbors'>;
+
+export const exportBoard = (state: ExportState) => JSON.stringify({
+  seed: state.seed,
+  mapSize: state.mapSize,
+  hexes: Array.from(state.board.entries())
+    .filter(([, hex]) => hex.terrain)
+    .map(([key, hex]) => ({ q: hex.q, r: hex.r, terrain: hex.terrain, number: state.numbers.get(key) ?? null })),
+  robber: state.robber,
+  harbors: state.harbors.map(({ hex, facing, type }) => ({ hex, facing, type }))
+}, null, 2);
+
+// Saves JSON through a temporary download link
+export const downloadJson = (json: string, name: string) => {
+  const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'export'}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
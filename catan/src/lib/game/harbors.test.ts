@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { BASE_HARBORS, DEFAULT_HARBOR_SPACING, HarborSet, placeHarbors } from './harbors';
+import { Hex, HexCoord, generateCatanBoard, hexKey } from './hex';
+import { createRng } from './rng';
+import { exportBoard } from './export';
+
+// A finished island built on every hex of the shape
+const createIsland = (hexes: Hex[]) => ({
+  hexes,
+  board: new Map<string, Hex>(hexes.map(hex => [hexKey(hex.q, hex.r), { ...hex, terrain: 'field' }]))
+});
+
+const isNeighbour = (a: HexCoord, b: HexCoord) =>
+  [[1, 0], [0, 1], [-1, 1], [-1, 0], [0, -1], [1, -1]].some(([dq, dr]) => a.q + dq === b.q && a.r + dr === b.r);
+
+describe('placeHarbors', () => {
+  it('puts harbors on land edges that face the sea', () => {
+    const island = createIsland(generateCatanBoard(2));
+    const harbors = placeHarbors(island, BASE_HARBORS, DEFAULT_HARBOR_SPACING, createRng(1));
+    harbors.forEach(harbor => {
+      expect(island.board.has(hexKey(harbor.hex.q, harbor.hex.r))).toBe(true);
+      expect(island.board.has(hexKey(harbor.facing.q, harbor.facing.r))).toBe(false);
+      expect(isNeighbour(harbor.hex, harbor.facing)).toBe(true);
+    });
+  });
+
+  it('places each harbor of the set exactly once on a long enough coast', () => {
+    const harbors = placeHarbors(createIsland(generateCatanBoard(2)), BASE_HARBORS, DEFAULT_HARBOR_SPACING, createRng(2));
+    const placed: HarborSet = {};
+    harbors.forEach(({ type }) => { placed[type] = (placed[type] ?? 0) + 1; });
+    expect(placed).toEqual(BASE_HARBORS);
+  });
+
+  it('keeps harbors the spacing apart along the coast', () => {
+    // 30 coastal edges with at least 9 free edges after each harbor leave
+    // room for three harbors at most
+    const harbors = placeHarbors(createIsland(generateCatanBoard(2)), BASE_HARBORS, 9, createRng(3));
+    expect(harbors.length).toBeGreaterThan(0);
+    expect(harbors.length).toBeLessThanOrEqual(3);
+    harbors.forEach((a, i) => harbors.slice(i + 1).forEach(b => {
+      expect(a.vertices.some(vertex => b.vertices.includes(vertex))).toBe(false);
+    }));
+  });
+
+  it('gives no harbor an edge that faces an empty cell of the board', () => {
+    // Only the centre is built - its neighbours are empty board cells, not sea
+    const hexes = generateCatanBoard(2);
+    const island = { hexes, board: new Map<string, Hex>([[hexKey(0, 0), { q: 0, r: 0, terrain: 'field' }]]) };
+    expect(placeHarbors(island, BASE_HARBORS, DEFAULT_HARBOR_SPACING, createRng(4))).toEqual([]);
+  });
+
+  it('is part of the board export', () => {
+    const island = createIsland(generateCatanBoard(2));
+    const harbors = placeHarbors(island, BASE_HARBORS, DEFAULT_HARBOR_SPACING, createRng(5));
+    const exported = JSON.parse(exportBoard({ ...island, seed: 'HARBORS', mapSize: 2, numbers: new Map(), robber: null, harbors }));
+    expect(exported.hexes).toHaveLength(19);
+    expect(exported.harbors).toEqual(harbors.map(({ hex, facing, type }) => ({ hex, facing, type })));
+  });
+});
@@ -0,0 +1,145 @@
+import type { GameState } from './engine';
+import { HexCoord, ResourceType, hexKey } from './hex';
+import { Rng } from './rng';
+import { getVertexKey } from './settlements';
+
+// ========== HARBORS ==========
+// Harbors sit on the outward edges of coastal land hexes once the island is
+// finished. A generic harbor trades 3:1, a resource harbor 2:1 for its
+// resource. Both corners of the edge get access to the harbor.
+
+export type HarborType = 'generic' | ResourceType;
+
+export interface Harbor {
+  edge: string;
+  // The land hex the harbor belongs to and the sea hex it faces
+  hex: HexCoord;
+  facing: HexCoord;
+  vertices: [string, string];
+  type: HarborType;
+}
+
+// How many harbors of each type a mode puts around its coast
+export type HarborSet = Partial<Record<HarborType, number>>;
+
+// Four 3:1 harbors and one 2:1 harbor per resource, as in the base game
+export const BASE_HARBORS: HarborSet = { generic: 4, wood: 1, wheat: 1, ore: 1, sheep: 1, brick: 1 };
+
+// The 5-6 player extension adds a 3:1 and a second sheep harbor
+export const EXTENSION_HARBORS: HarborSet = { generic: 5, wood: 1, wheat: 1, ore: 1, sheep: 2, brick: 1 };
+
+// Coastal edges that have to stay free between two harbors
+export const DEFAULT_HARBOR_SPACING = 2;
+
+export const getHarborRatio = (type: HarborType) => (type === 'generic' ? 3 : 2);
+
+// Neighbour directions in order around a hex - consecutive pairs meet at a corner
+const DIRECTIONS: HexCoord[] = [
+  { q: 1, r: 0 },
+  { q: 1, r: -1 },
+  { q: 0, r: -1 },
+  { q: -1, r: 0 },
+  { q: -1, r: 1 },
+  { q: 0, r: 1 }
+];
+
+type CoastState = Pick<GameState, 'hexes' | 'board'>;
+
+type CoastEdge = Omit<Harbor, 'type'>;
+
+// Land that has been built - water tiles and empty cells are not coast
+const isLand = (state: CoastState, q: number, r: number) => {
+  const terrain = state.board.get(hexKey(q, r))?.terrain;
+  return terrain !== undefined && terrain !== 'water';
+};
+
+// Sea is anything off the board or a water tile. Empty cells left by a
+// topped-out game are neither, so no harbor faces a hole in the island.
+const isSea = (state: CoastState, q: number, r: number) => {
+  const cell = state.hexes.find(hex => hex.q === q && hex.r === r);
+  return !cell || cell.isWater === true || state.board.get(hexKey(q, r))?.terrain === 'water';
+};
+
+const getCoastEdges = (state: CoastState): CoastEdge[] => {
+  const edges: CoastEdge[] = [];
+  state.board.forEach(hex => {
+    if (!isLand(state, hex.q, hex.r)) return;
+    DIRECTIONS.forEach((direction, i) => {
+      const facing = { q: hex.q + direction.q, r: hex.r + direction.r };
+      if (!isSea(state, facing.q, facing.r)) return;
+      const before = DIRECTIONS[(i + 5) % 6];
+      const after = DIRECTIONS[(i + 1) % 6];
+      const hexCoord = { q: hex.q, r: hex.r };
+      edges.push({
+        edge: getVertexKey([hexCoord, facing]),
+        hex: hexCoord,
+        facing,
+        vertices: [
+          getVertexKey([hexCoord, facing, { q: hex.q + before.q, r: hex.r + before.r }]),
+          getVertexKey([hexCoord, facing, { q: hex.q + after.q, r: hex.r + after.r }])
+        ]
+      });
+    });
+  });
+  return edges;
+};
+
+// Walks each coastline corner to corner, so neighbouring edges end up next to
+// each other. An archipelago has one coastline per island.
+const getCoastlines = (edges: CoastEdge[]): CoastEdge[][] => {
+  const byVertex = new Map<string, CoastEdge[]>();
+  edges.forEach(edge => edge.vertices.forEach(vertex => {
+    byVertex.set(vertex, [...(byVertex.get(vertex) ?? []), edge]);
+  }));
+
+  const visited = new Set<string>();
+  const coastlines: CoastEdge[][] = [];
+  edges.forEach(start => {
+    if (visited.has(start.edge)) return;
+    const coastline: CoastEdge[] = [];
+    let current: CoastEdge | undefined = start;
+    while (current) {
+      visited.add(current.edge);
+      coastline.push(current);
+      current = current.vertices
+        .flatMap(vertex => byVertex.get(vertex) ?? [])
+        .find(next => !visited.has(next.edge));
+    }
+    coastlines.push(coastline);
+  });
+  return coastlines;
+};
+
+// Spreads the mode's harbors evenly along the coast from a random starting
+// edge, skipping any spot closer than `spacing` free edges to another harbor.
+// Short coastlines simply get fewer harbors.
+export const placeHarbors = (state: CoastState, harborSet: HarborSet, spacing: number, rng: Rng): Harbor[] => {
+  const coastlines = getCoastlines(getCoastEdges(state));
+  const coast = coastlines.flat();
+  const types = rng.shuffle(
+    Object.entries(harborSet).flatMap(([type, count]) => Array<HarborType>(count ?? 0).fill(type as HarborType))
+  );
+  if (coast.length === 0 || types.length === 0) return [];
+
+  // Position of every edge on its own coastline, for distances along the coast
+  const location = new Map<string, { line: number; index: number }>();
+  coastlines.forEach((line, lineIndex) => line.forEach((edge, index) => location.set(edge.edge, { line: lineIndex, index })));
+  const isTooClose = (a: CoastEdge, b: CoastEdge) => {
+    const from = location.get(a.edge)!;
+    const to = location.get(b.edge)!;
+    if (from.line !== to.line) return false;
+    const length = coastlines[from.line].length;
+    const distance = Math.abs(from.index - to.index);
+    return Math.min(distance, length - distance) <= spacing;
+  };
+
+  const harbors: Harbor[] = [];
+  const offset = rng.int(coast.length);
+  const count = Math.min(types.length, coast.length);
+  for (let i = 0; i < count; i++) {
+    const edge = coast[(offset + Math.floor((i * coast.length) / count)) % coast.length];
+    if (harbors.some(harbor => isTooClose(harbor, edge))) continue;
+    harbors.push({ ...edge, type: types[harbors.length] });
+  }
+  return harbors;
+};
@@ -0,0 +1,75 @@
+import { BoardShape, DEFAULT_SHAPE, getShapeHexes } from './shapes';
+
+export type TerrainType = 'forest' | 'field' | 'mountain' | 'pasture' | 'hill' | 'desert' | 'water' | 'gold';
+
+export type ResourceType = 'wood' | 'wheat' | 'ore' | 'sheep' | 'brick';
+
+// Terrains that produce a resource - desert and water produce none, gold pays
+// out a resource of the player's choice
+export const TERRAIN_RESOURCES: Partial<Record<TerrainType, ResourceType>> = {
+  forest: 'wood',
+  field: 'wheat',
+  mountain: 'ore',
+  pasture: 'sheep',
+  hill: 'brick'
+};
+
+export const RESOURCE_TYPES: ResourceType[] = ['wood', 'wheat', 'ore', 'sheep', 'brick'];
+
+export const RESOURCE_ICONS: Record<ResourceType, string> = {
+  wood: '🪵',
+  wheat: '🌾',
+  ore: '⛏️',
+  sheep: '🐑',
+  brick: '🧱'
+};
+
+export interface Hex {
+  q: number;
+  r: number;
+  terrain?: TerrainType;
+  hasSettlement?: boolean;
+  hasCity?: boolean;
+  hasRoad?: boolean;
+  isWater?: boolean;
+  number?: number;
+  // Index of the hotseat player who placed the tile
+  owner?: number;
+  // Cities & Knights - owner of the knight standing on the hex
+  knight?: number;
+}
+
+export interface HexCoord {
+  q: number;
+  r: number;
+}
+
+export const hexKey = (q: number, r: number) => `${q},${r}`;
+
+export const getAdjacentHexes = (q: number, r: number): HexCoord[] => {
+  return [
+    { q: q + 1, r: r },
+    { q: q - 1, r: r },
+    { q: q, r: r + 1 },
+    { q: q, r: r - 1 },
+    { q: q + 1, r: r - 1 },
+    { q: q - 1, r: r + 1 }
+  ];
+};
+
+// ========== OCEAN FRAME ==========
+// One ring of open sea around the playable hexes. Frame hexes are water from
+// the start, so nothing can be dropped onto them.
+export const addOceanFrame = (hexes: Hex[]): Hex[] => {
+  const keys = new Set(hexes.map(hex => hexKey(hex.q, hex.r)));
+  const frame = new Map<string, Hex>();
+  hexes.forEach(hex => getAdjacentHexes(hex.q, hex.r).forEach(adj => {
+    const key = hexKey(adj.q, adj.r);
+    if (!keys.has(key)) frame.set(key, { q: adj.q, r: adj.r, terrain: 'water', isWater: true });
+  }));
+  return [...hexes, ...frame.values()];
+};
+
+// ========== BOARD GENERATION ==========
+export const generateCatanBoard = (size: number, shape: BoardShape = DEFAULT_SHAPE): Hex[] =>
+  getShapeHexes(shape, size).map(({ q, r }) => ({ q, r, terrain: undefined }));
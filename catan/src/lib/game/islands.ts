@@ -0,0 +1,43 @@
+import type { GameState } from './engine';
+import { HexCoord, getAdjacentHexes, hexKey } from './hex';
+
+// ========== ISLANDS ==========
+// Seafarers islands are groups of land tiles connected through shared edges.
+// Water tiles and the ocean frame keep them apart.
+
+// Victory points for every island beyond the first
+export const ISLAND_BONUS_POINTS = 2;
+
+export const getIslands = (board: GameState['board']): HexCoord[][] => {
+  const isLand = (key: string) => {
+    const terrain = board.get(key)?.terrain;
+    return terrain !== undefined && terrain !== 'water';
+  };
+
+  const visited = new Set<string>();
+  const islands: HexCoord[][] = [];
+  board.forEach((hex, key) => {
+    if (!isLand(key) || visited.has(key)) return;
+    const island: HexCoord[] = [];
+    const stack = [{ q: hex.q, r: hex.r }];
+    visited.add(key);
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      island.push(current);
+      getAdjacentHexes(current.q, current.r).forEach(adj => {
+        const adjKey = hexKey(adj.q, adj.r);
+        if (!visited.has(adjKey) && isLand(adjKey)) {
+          visited.add(adjKey);
+          stack.push(adj);
+        }
+      });
+    }
+    islands.push(island);
+  });
+
+  // Largest first - the first one is the home island
+  return islands.sort((a, b) => b.length - a.length);
+};
+
+// A Seafarers layout has to split the land into at least two islands
+export const formsArchipelago = (board: GameState['board']) => getIslands(board).length >= 2;
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { BARBARIAN_TRACK_LENGTH, KNIGHTS_PER_PLAYER, advanceBarbarians, canPlaceKnight, resolveBarbarianAttack } from './knights';
+import { Hex, hexKey } from './hex';
+
+// A row of field hexes with knights standing on the first ones
+const createBoard = (knights: number[], size = 6) => new Map<string, Hex>(
+  Array.from({ length: size }, (_, q) => [hexKey(q, 0), { q, r: 0, terrain: 'field', knight: knights[q] }])
+);
+
+describe('canPlaceKnight', () => {
+  it('needs Cities & Knights, a free land hex and a knight left in supply', () => {
+    const board = createBoard([0]);
+    expect(canPlaceKnight({ board, citiesAndKnights: true }, 0, 1, 0)).toBe(true);
+    expect(canPlaceKnight({ board, citiesAndKnights: false }, 0, 1, 0)).toBe(false);
+    expect(canPlaceKnight({ board, citiesAndKnights: true }, 1, 0, 0)).toBe(false);
+    expect(canPlaceKnight({ board, citiesAndKnights: true }, 0, 9, 9)).toBe(false);
+  });
+
+  it('stops at the supply of knights', () => {
+    const board = createBoard(Array(KNIGHTS_PER_PLAYER).fill(0));
+    expect(canPlaceKnight({ board, citiesAndKnights: true }, 0, KNIGHTS_PER_PLAYER, 0)).toBe(false);
+    expect(canPlaceKnight({ board, citiesAndKnights: true }, 1, KNIGHTS_PER_PLAYER, 0)).toBe(true);
+  });
+});
+
+describe('resolveBarbarianAttack', () => {
+  it('names the single player with the most knights Defender of Catan', () => {
+    const attack = resolveBarbarianAttack({ board: createBoard([0, 0, 1]), playerCount: 2 }, 3);
+    expect(attack).toEqual({ strength: 3, defense: 3, defended: true, defenders: [0], pillaged: [] });
+  });
+
+  it('names no defender on a tie for the most knights', () => {
+    const attack = resolveBarbarianAttack({ board: createBoard([0, 1]), playerCount: 2 }, 1);
+    expect(attack.defended).toBe(true);
+    expect(attack.defenders).toEqual([]);
+  });
+
+  it('pillages every player tied for the fewest knights after a loss', () => {
+    const attack = resolveBarbarianAttack({ board: createBoard([0]), playerCount: 3 }, 2);
+    expect(attack).toEqual({ strength: 2, defense: 1, defended: false, defenders: [], pillaged: [1, 2] });
+  });
+});
+
+describe('advanceBarbarians', () => {
+  it('lands after a full track and sends a stronger fleet each time', () => {
+    let state = { board: createBoard([0]), playerCount: 1, barbarianPosition: 0, barbarianAttacks: [] };
+    for (let i = 0; i < BARBARIAN_TRACK_LENGTH * 2; i++) state = { ...state, ...advanceBarbarians(state) };
+    expect(state.barbarianPosition).toBe(0);
+    expect(state.barbarianAttacks.map(attack => [attack.strength, attack.defended])).toEqual([[1, true], [2, false]]);
+  });
+});
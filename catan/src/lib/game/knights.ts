@@ -0,0 +1,93 @@
+import type { GameState } from './engine';
+import { TerrainType, hexKey } from './hex';
+
+// ========== CITIES & KNIGHTS ==========
+// The barbarian ship sails one step closer with every piece dropped. When it
+// lands, the knights standing on the island have to match its strength -
+// and every landing brings one more ship than the last.
+
+export type CommodityType = 'paper' | 'cloth' | 'coin';
+
+export type CommodityHand = Record<CommodityType, number>;
+
+export interface BarbarianAttack {
+  strength: number;
+  defense: number;
+  defended: boolean;
+  // Defender of Catan after a win - only a single player with the most knights
+  defenders: number[];
+  // Players with the fewest knights are pillaged after a loss
+  pillaged: number[];
+}
+
+// Steps from the far shore to the island
+export const BARBARIAN_TRACK_LENGTH = 7;
+
+export const KNIGHTS_PER_PLAYER = 3;
+
+// Victory points won as Defender of Catan and lost when pillaged
+export const DEFENDER_POINTS = 1;
+export const PILLAGE_POINTS = 1;
+
+// Cities on these terrains take a commodity instead of their second resource
+export const TERRAIN_COMMODITIES: Partial<Record<TerrainType, CommodityType>> = {
+  forest: 'paper',
+  pasture: 'cloth',
+  mountain: 'coin'
+};
+
+export const createEmptyCommodities = (): CommodityHand => ({ paper: 0, cloth: 0, coin: 0 });
+
+export const countCommodities = (hand: CommodityHand) =>
+  Object.values(hand).reduce((sum, count) => sum + count, 0);
+
+export const addCommodities = (a: CommodityHand, b: CommodityHand): CommodityHand => ({
+  paper: a.paper + b.paper,
+  cloth: a.cloth + b.cloth,
+  coin: a.coin + b.coin
+});
+
+// ========== KNIGHTS ==========
+// Knights stand on built land hexes and travel with their hex when lines clear
+
+export const countKnights = (board: GameState['board'], owner: number) =>
+  Array.from(board.values()).filter(hex => hex.knight === owner).length;
+
+export const canPlaceKnight = (
+  state: Pick<GameState, 'board' | 'citiesAndKnights'>,
+  owner: number,
+  q: number,
+  r: number
+): boolean => {
+  if (!state.citiesAndKnights) return false;
+  const hex = state.board.get(hexKey(q, r));
+  if (!hex?.terrain || hex.terrain === 'water' || hex.knight !== undefined) return false;
+  return countKnights(state.board, owner) < KNIGHTS_PER_PLAYER;
+};
+
+// ========== BARBARIANS ==========
+type BarbarianState = Pick<GameState, 'board' | 'playerCount' | 'barbarianPosition' | 'barbarianAttacks'>;
+
+const getPlayersWith = (counts: number[], target: number) =>
+  counts.flatMap((count, player) => (count === target ? [player] : []));
+
+export const resolveBarbarianAttack = (state: Pick<GameState, 'board' | 'playerCount'>, strength: number): BarbarianAttack => {
+  const knights = Array.from({ length: state.playerCount }, (_, player) => countKnights(state.board, player));
+  const defense = knights.reduce((sum, count) => sum + count, 0);
+
+  if (defense >= strength) {
+    const leaders = getPlayersWith(knights, Math.max(...knights));
+    return { strength, defense, defended: true, defenders: leaders.length === 1 ? leaders : [], pillaged: [] };
+  }
+  return { strength, defense, defended: false, defenders: [], pillaged: getPlayersWith(knights, Math.min(...knights)) };
+};
+
+// One step per piece - on landing the attack is resolved and the next fleet
+// sets out from the far shore
+export const advanceBarbarians = (state: BarbarianState): Pick<GameState, 'barbarianPosition' | 'barbarianAttacks'> => {
+  const position = state.barbarianPosition + 1;
+  if (position < BARBARIAN_TRACK_LENGTH) return { barbarianPosition: position, barbarianAttacks: state.barbarianAttacks };
+
+  const attack = resolveBarbarianAttack(state, state.barbarianAttacks.length + 1);
+  return { barbarianPosition: 0, barbarianAttacks: [...state.barbarianAttacks, attack] };
+};
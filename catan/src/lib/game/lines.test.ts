@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { clearHexes, findCompletedLines } from './lines';
+import { Hex, TerrainType, generateCatanBoard, hexKey } from './hex';
+
+const fill = (hexes: Hex[], terrain: TerrainType = 'field') =>
+  new Map<string, Hex>(hexes.map(hex => [hexKey(hex.q, hex.r), { ...hex, terrain }]));
+
+describe('findCompletedLines', () => {
+  const hexes = generateCatanBoard(2);
+
+  it('completes a row once its last hex is placed', () => {
+    const board = fill(hexes.filter(hex => hex.r === 1));
+    expect(findCompletedLines(hexes, board, { q: 0, r: 1 })).toEqual({
+      rows: [1],
+      rings: [],
+      keys: hexes.filter(hex => hex.r === 1).map(hex => hexKey(hex.q, hex.r))
+    });
+  });
+
+  it('ignores a row with a gap in it', () => {
+    const board = fill(hexes.filter(hex => hex.r === 1 && hex.q !== -1));
+    expect(findCompletedLines(hexes, board, { q: 0, r: 1 }).rows).toEqual([]);
+  });
+
+  it('completes a ring around the centre but never the centre itself', () => {
+    const board = fill(hexes.filter(hex => Math.max(Math.abs(hex.q), Math.abs(hex.r), Math.abs(hex.q + hex.r)) <= 1));
+    expect(findCompletedLines(hexes, board, { q: 1, r: 0 }).rings).toEqual([1]);
+    expect(findCompletedLines(hexes, board, { q: 0, r: 0 }).rings).toEqual([]);
+  });
+});
+
+describe('clearHexes', () => {
+  it('lets the tiles above a cleared hex fall into its place', () => {
+    const hexes = generateCatanBoard(2);
+    const board = fill([{ q: 0, r: 0 }, { q: 0, r: 1 }, { q: 0, r: 2 }]);
+    board.set(hexKey(0, 0), { q: 0, r: 0, terrain: 'hill' });
+    const next = clearHexes(hexes, board, [hexKey(0, 1)]);
+    expect(Array.from(next.keys()).sort()).toEqual([hexKey(0, 1), hexKey(0, 2)]);
+    expect(next.get(hexKey(0, 1))).toMatchObject({ r: 1, terrain: 'hill' });
+  });
+
+  it('drops tiles past the lake of a ring', () => {
+    // Column 0 of the size-2 ring is -2, -1, 1, 2 - the lake takes the centre
+    const hexes = generateCatanBoard(2, { type: 'ring' });
+    const board = fill([{ q: 0, r: -1 }, { q: 0, r: 1 }, { q: 0, r: 2 }]);
+    const next = clearHexes(hexes, board, [hexKey(0, 1)]);
+    expect(Array.from(next.keys()).sort()).toEqual([hexKey(0, 1), hexKey(0, 2)]);
+  });
+});
@@ -0,0 +1,60 @@
+import { Hex, HexCoord, hexKey } from './hex';
+
+// ========== LINE CLEARS ==========
+// The hex-grid take on a Tetris line: a full axial row (constant r) or a full
+// ring around the centre hex.
+
+export interface CompletedLines {
+  rows: number[];
+  rings: number[];
+  // Every hex that belongs to one of the completed lines
+  keys: string[];
+}
+
+export const getRing = (q: number, r: number) => Math.max(Math.abs(q), Math.abs(r), Math.abs(-q - r));
+
+const isFilled = (board: Map<string, Hex>, hex: HexCoord) => !!board.get(hexKey(hex.q, hex.r))?.terrain;
+
+// Only lines running through the hex just placed can have been completed by it.
+// The centre "ring" is a single hex and never counts as a line.
+export const findCompletedLines = (hexes: Hex[], board: Map<string, Hex>, placed: HexCoord): CompletedLines => {
+  const layout = hexes.filter(h => !h.isWater);
+  const row = layout.filter(h => h.r === placed.r);
+  const ringIndex = getRing(placed.q, placed.r);
+  const ring = layout.filter(h => getRing(h.q, h.r) === ringIndex);
+
+  const rows = row.every(h => isFilled(board, h)) ? [placed.r] : [];
+  const rings = ringIndex > 0 && ring.every(h => isFilled(board, h)) ? [ringIndex] : [];
+
+  const keys = new Set<string>();
+  if (rows.length > 0) row.forEach(h => keys.add(hexKey(h.q, h.r)));
+  if (rings.length > 0) ring.forEach(h => keys.add(hexKey(h.q, h.r)));
+
+  return { rows, rings, keys: Array.from(keys) };
+};
+
+// Removes the cleared hexes and lets every tile above a cleared hex in the same
+// column fall by the number of cleared hexes beneath it. Gaps in a column (a
+// ring's lake) are skipped, so tiles only ever come to rest on board hexes.
+export const clearHexes = (hexes: Hex[], board: Map<string, Hex>, clearedKeys: string[]): Map<string, Hex> => {
+  const cleared = new Set(clearedKeys);
+  const columns = new Map<number, number[]>();
+  hexes.filter(h => !h.isWater).forEach(h => columns.set(h.q, [...(columns.get(h.q) ?? []), h.r]));
+  columns.forEach(rows => rows.sort((a, b) => a - b));
+
+  const clearedByColumn = new Map<number, number[]>();
+  clearedKeys.forEach(key => {
+    const [q, r] = key.split(',').map(Number);
+    clearedByColumn.set(q, [...(clearedByColumn.get(q) ?? []), r]);
+  });
+
+  const next = new Map<string, Hex>();
+  board.forEach((hex, key) => {
+    if (cleared.has(key)) return;
+    const drop = (clearedByColumn.get(hex.q) ?? []).filter(r => r > hex.r).length;
+    const rows = columns.get(hex.q) ?? [];
+    const r = drop === 0 ? hex.r : rows[rows.indexOf(hex.r) + drop];
+    next.set(hexKey(hex.q, r), { ...hex, r });
+  });
+  return next;
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { exportGameMode, parseGameModeJson } from './modes';
+import type { GameMode } from '@/components/GameModeSelector';
+
+const MODE: GameMode = {
+  id: 'custom-test',
+  name: 'Test Island',
+  description: 'A ring with a lake',
+  mapSize: 3,
+  shape: { type: 'ring' },
+  maxPlayers: 4,
+  features: ['Ring'],
+  tileCount: { field: 6, forest: 6, pasture: 6, hill: 6, mountain: 6, desert: 0, water: 0, gold: 0 },
+  numberRules: ['no-adjacent-6-8', 'balanced-pips'],
+  numberRatios: { 6: 2, 8: 2, 5: 3 },
+  harbors: { generic: 3, ore: 1 }
+};
+
+describe('parseGameModeJson', () => {
+  it('reads back an exported mode unchanged', () => {
+    expect(parseGameModeJson(exportGameMode(MODE))).toEqual({ mode: MODE, errors: [] });
+  });
+
+  it('accepts a custom mask of hexes', () => {
+    const mode = { ...MODE, shape: { type: 'custom', hexes: [{ q: 0, r: 0 }, { q: 1, r: 0 }] } };
+    expect(parseGameModeJson(JSON.stringify(mode)).errors).toEqual([]);
+  });
+
+  it('rejects a file that is not JSON', () => {
+    const { mode, errors } = parseGameModeJson('{ "id": ');
+    expect(mode).toBeNull();
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^Not a JSON file: /);
+  });
+
+  it('reports every problem with the field it is about', () => {
+    const broken = {
+      ...MODE,
+      mapSize: 9,
+      tileCount: { ...MODE.tileCount, gold: -1 },
+      numberRules: ['no-adjacent-7'],
+      shape: { type: 'custom', hexes: [] }
+    };
+    const { mode, errors } = parseGameModeJson(JSON.stringify(broken));
+    expect(mode).toBeNull();
+    expect(errors.map(error => error.split(':')[0]).sort()).toEqual(['mapSize', 'numberRules.0', 'shape.hexes', 'tileCount.gold']);
+  });
+
+  it('rejects unknown keys instead of dropping them', () => {
+    const { errors } = parseGameModeJson(JSON.stringify({ ...MODE, tileCounts: MODE.tileCount }));
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^mode: /);
+  });
+});
@@ -0,0 +1,151 @@
+import { z } from 'zod';
+import type { GameMode } from '@/components/GameModeSelector';
+import { NUMBER_RULES, NumberRule } from './numbers';
+import { MAX_PLAYERS } from './players';
+
+// ========== DROP SPEED ==========
+// Pieces start at `start` ms per row and fall `step` ms faster every
+// `interval` ms of play, never faster than `min`.
+
+export interface DropSpeedCurve {
+  start: number;
+  min: number;
+  step: number;
+  interval: number;
+}
+
+export const DEFAULT_DROP_SPEED: DropSpeedCurve = { start: 1000, min: 300, step: 20, interval: 20000 };
+
+// Row time while the down arrow is held
+export const SOFT_DROP_SPEED = 100;
+
+export const DEFAULT_TARGET_POINTS = 10;
+
+// ========== SCHEMA ==========
+// Shape of a mode file. Stricter than the GameMode type - unknown keys are
+// rejected so a typo in a shared file is reported instead of ignored.
+// Without strictNullChecks zod infers every field as optional, so parsed
+// output is cast back to GameMode.
+
+const tileAmount = z.number().int().min(0);
+
+export const tileCountSchema = z.object({
+  field: tileAmount,
+  forest: tileAmount,
+  pasture: tileAmount,
+  hill: tileAmount,
+  mountain: tileAmount,
+  desert: tileAmount,
+  water: tileAmount,
+  gold: tileAmount
+}).strict();
+
+const dropSpeedSchema = z.object({
+  start: z.number().positive(),
+  min: z.number().positive(),
+  step: z.number().min(0),
+  interval: z.number().positive()
+}).strict();
+
+const hexCoordSchema = z.object({ q: z.number().int(), r: z.number().int() }).strict();
+
+const shapeSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.enum(['hexagon', 'elongated', 'rectangle', 'ring', 'triangle']) }).strict(),
+  z.object({ type: z.literal('custom'), hexes: z.array(hexCoordSchema).min(1) }).strict()
+]);
+
+export const gameModeSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  description: z.string(),
+  // Larger islands take too long to fill - custom shapes can still go further out
+  mapSize: z.number().int().min(2).max(4),
+  shape: shapeSchema.optional(),
+  maxPlayers: z.number().int().min(1).max(MAX_PLAYERS),
+  features: z.array(z.string()),
+  tileCount: tileCountSchema,
+  seed: z.string().optional(),
+  endless: z.boolean().optional(),
+  multiHexPieces: z.boolean().optional(),
+  numberRules: z.array(z.enum(NUMBER_RULES as [NumberRule, ...NumberRule[]])).optional(),
+  numberRatios: z.record(z.enum(['2', '3', '4', '5', '6', '8', '9', '10', '11', '12']), tileAmount).optional(),
+  spiralNumbers: z.boolean().optional(),
+  harbors: z.record(z.enum(['generic', 'wood', 'wheat', 'ore', 'sheep', 'brick']), tileAmount).optional(),
+  harborSpacing: tileAmount.optional(),
+  seafarers: z.boolean().optional(),
+  citiesAndKnights: z.boolean().optional(),
+  targetPoints: z.number().int().min(1).optional(),
+  dropSpeed: dropSpeedSchema.optional()
+}).strict();
+
+// mode is null when the file was rejected
+export interface ModeImport {
+  mode: GameMode | null;
+  errors: string[];
+}
+
+const formatIssue = (issue: z.ZodIssue) =>
+  `${issue.path.length > 0 ? issue.path.join('.') : 'mode'}: ${issue.message}`;
+
+// Every problem in the file at once, each with the field it is about
+export const parseGameModeJson = (json: string): ModeImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return { mode: null, errors: [`Not a JSON file: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+  const result = gameModeSchema.safeParse(data);
+  return result.success
+    ? { mode: result.data as GameMode, errors: [] }
+    : { mode: null, errors: result.error.issues.map(formatIssue) };
+};
+
+export const exportGameMode = (mode: GameMode) => JSON.stringify(mode, null, 2);
+
+// ========== CUSTOM MODES ==========
+// Modes built in the editor live in localStorage next to the daily results
+
+export const CUSTOM_MODE_PREFIX = 'custom-';
+
+const CUSTOM_MODES_STORAGE_KEY = 'tetris-catan:custom-modes';
+
+export const isCustomMode = (mode: GameMode) => mode.id.startsWith(CUSTOM_MODE_PREFIX);
+
+export const createCustomModeId = () => `${CUSTOM_MODE_PREFIX}${Date.now().toString(36)}`;
+
+export const loadCustomModes = (): GameMode[] => {
+  try {
+    const raw = localStorage.getItem(CUSTOM_MODES_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    // Entries that no longer fit the schema are dropped rather than crash the menu
+    return Array.isArray(parsed)
+      ? parsed.flatMap(entry => {
+          const result = gameModeSchema.safeParse(entry);
+          return result.success ? [result.data as GameMode] : [];
+        })
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+const storeCustomModes = (modes: GameMode[]): GameMode[] => {
+  try {
+    localStorage.setItem(CUSTOM_MODES_STORAGE_KEY, JSON.stringify(modes));
+  } catch {
+    // Storage full or disabled - the modes only last for this visit
+  }
+  return modes;
+};
+
+// Replaces the mode with the same id, or adds it at the end
+export const saveCustomMode = (mode: GameMode): GameMode[] => {
+  const existing = loadCustomModes();
+  return storeCustomModes(existing.some(m => m.id === mode.id)
+    ? existing.map(m => (m.id === mode.id ? mode : m))
+    : [...existing, mode]);
+};
+
+export const deleteCustomMode = (id: string): GameMode[] =>
+  storeCustomModes(loadCustomModes().filter(m => m.id !== id));
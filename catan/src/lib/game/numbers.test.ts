@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { BASE_NUMBER_RATIOS, EXTENSION_NUMBER_RATIOS, NUMBER_RULES, assignNumbers, getNumberDistribution } from './numbers';
+import { Hex, TerrainType, generateCatanBoard, hexKey } from './hex';
+import { createRng } from './rng';
+
+// The base island with every hex producing, so all 19 hexes take a token
+const createBoard = () =>
+  new Map<string, Hex>(generateCatanBoard(2).map(hex => [hexKey(hex.q, hex.r), { ...hex, terrain: 'field' }]));
+
+describe('getNumberDistribution', () => {
+  const countTokens = (tokens: number[]) => {
+    const counts: Record<number, number> = {};
+    tokens.forEach(n => { counts[n] = (counts[n] ?? 0) + 1; });
+    return counts;
+  };
+
+  it('returns the official token sets at their own size', () => {
+    expect(countTokens(getNumberDistribution(18, BASE_NUMBER_RATIOS))).toEqual(BASE_NUMBER_RATIOS);
+    expect(countTokens(getNumberDistribution(28, EXTENSION_NUMBER_RATIOS))).toEqual(EXTENSION_NUMBER_RATIOS);
+  });
+
+  it('scales to exactly one token per hex, never a 7', () => {
+    [1, 5, 19, 30, 36, 60].forEach(count => {
+      const tokens = getNumberDistribution(count, BASE_NUMBER_RATIOS);
+      expect(tokens).toHaveLength(count);
+      expect(tokens).not.toContain(7);
+    });
+  });
+
+  it('gives leftover tokens to the numbers with more pips', () => {
+    // 9 tokens at 1:1 can't split evenly - the 6 rolls more often than the 2
+    expect(countTokens(getNumberDistribution(9, { 2: 1, 6: 1 }))).toEqual({ 2: 4, 6: 5 });
+  });
+
+  it('ignores 7s and numbers without a weight', () => {
+    expect(getNumberDistribution(4, { 7: 3, 5: 1, 9: 0 })).toEqual([5, 5, 5, 5]);
+    expect(getNumberDistribution(4, {})).toEqual([]);
+  });
+});
+
+describe('assignNumbers', () => {
+  it('keeps every rule when the island allows it', () => {
+    const { unmetRules } = assignNumbers(createBoard(), { ratios: BASE_NUMBER_RATIOS, placement: 'balanced', rules: NUMBER_RULES }, createRng(1));
+    expect(unmetRules).toEqual([]);
+  });
+
+  it('drops only the rules that cannot hold', () => {
+    // Ten 6s and 8s on 19 hexes can't all stay apart, but 2s and 12s still can
+    const ratios = { 6: 5, 8: 5, 3: 1, 4: 1 };
+    const { numbers, unmetRules } = assignNumbers(createBoard(), { ratios, placement: 'balanced', rules: NUMBER_RULES }, createRng(1));
+    expect(numbers.size).toBe(19);
+    expect(unmetRules).toContain('no-adjacent-6-8');
+    expect(unmetRules).not.toContain('no-adjacent-2-12');
+    expect(unmetRules).not.toContain('balanced-pips');
+  });
+
+  it('keeps every rule on a 61-hex island that a single search gave up on', () => {
+    // Unlucky early choices used to burn the whole node limit here
+    const bag: TerrainType[] = [
+      ...Array<TerrainType>(13).fill('field'), ...Array<TerrainType>(13).fill('forest'),
+      ...Array<TerrainType>(12).fill('pasture'), ...Array<TerrainType>(11).fill('hill'),
+      ...Array<TerrainType>(11).fill('mountain'), 'desert'
+    ];
+    const terrains = createRng(1001).shuffle(bag);
+    const board = new Map<string, Hex>(generateCatanBoard(4).map((hex, i) => [hexKey(hex.q, hex.r), { ...hex, terrain: terrains[i] }]));
+    const { numbers, unmetRules } = assignNumbers(board, { ratios: EXTENSION_NUMBER_RATIOS, placement: 'balanced', rules: NUMBER_RULES }, createRng(7));
+    expect(numbers.size).toBe(60);
+    expect(unmetRules).toEqual([]);
+  });
+});
+
+describe('spiral placement', () => {
+  // Tokens A-R of the base game
+  const LETTERS = [5, 2, 6, 3, 8, 10, 9, 12, 11, 4, 8, 10, 9, 4, 5, 6, 3, 11];
+
+  // The hexes of one ring in order around the centre
+  const getRing = (ring: number) => generateCatanBoard(2)
+    .filter(hex => Math.max(Math.abs(hex.q), Math.abs(hex.r), Math.abs(hex.q + hex.r)) === ring)
+    .sort((a, b) => Math.atan2(Math.sqrt(3) * (a.r + a.q / 2), 1.5 * a.q) - Math.atan2(Math.sqrt(3) * (b.r + b.q / 2), 1.5 * b.q));
+
+  const isRotation = (tokens: number[], expected: number[]) =>
+    [tokens, [...tokens].reverse()].some(order => order.some((_, start) =>
+      order.every((_, i) => order[(start + i) % order.length] === expected[i])));
+
+  it('lays tokens A-R around the base island and skips the desert', () => {
+    const board = createBoard();
+    board.set(hexKey(0, 0), { q: 0, r: 0, terrain: 'desert' });
+    const { numbers } = assignNumbers(board, { ratios: BASE_NUMBER_RATIOS, placement: 'spiral', rules: NUMBER_RULES }, createRng(3));
+
+    expect(numbers.has(hexKey(0, 0))).toBe(false);
+    const outer = getRing(2).map(hex => numbers.get(hexKey(hex.q, hex.r))!);
+    const inner = getRing(1).map(hex => numbers.get(hexKey(hex.q, hex.r))!);
+    expect(isRotation(outer, LETTERS.slice(0, 12))).toBe(true);
+    expect(isRotation(inner, LETTERS.slice(12))).toBe(true);
+  });
+
+  it('uses the whole token set wherever the desert lies', () => {
+    const board = createBoard();
+    board.set(hexKey(1, 0), { q: 1, r: 0, terrain: 'desert' });
+    const { numbers } = assignNumbers(board, { ratios: BASE_NUMBER_RATIOS, placement: 'spiral', rules: [] }, createRng(4));
+    expect(numbers.has(hexKey(1, 0))).toBe(false);
+    expect(Array.from(numbers.values()).sort((a, b) => a - b)).toEqual([...LETTERS].sort((a, b) => a - b));
+  });
+});
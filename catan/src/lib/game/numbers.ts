@@ -0,0 +1,360 @@
+import { Hex, HexCoord, ResourceType, TERRAIN_RESOURCES, getAdjacentHexes, hexKey } from './hex';
+import { Rng } from './rng';
+
+interface NumberTile {
+  key: string;
+  q: number;
+  r: number;
+  // Gold hexes take a number but produce no fixed resource
+  resource: ResourceType | null;
+}
+
+// Dots on a number token: how many of the 36 two-dice rolls produce it
+export const getPips = (number: number) => (number >= 2 && number <= 12 && number !== 7 ? 6 - Math.abs(7 - number) : 0);
+
+// ========== NUMBER RULES ==========
+// Layout constraints a mode can switch on. Listed from most to least
+// important - when an island cannot satisfy all of them, the solver gives up
+// only the ones that conflict with a more important rule.
+export type NumberRule = 'no-adjacent-6-8' | 'no-adjacent-2-12' | 'no-adjacent-same' | 'balanced-pips';
+
+export const NUMBER_RULES: NumberRule[] = ['no-adjacent-6-8', 'no-adjacent-2-12', 'no-adjacent-same', 'balanced-pips'];
+
+export const NUMBER_RULE_LABELS: Record<NumberRule, string> = {
+  'no-adjacent-6-8': 'No touching 6s and 8s',
+  'no-adjacent-2-12': 'No touching 2s and 12s',
+  'no-adjacent-same': 'No touching identical numbers',
+  'balanced-pips': 'Balanced pips per resource'
+};
+
+export const DEFAULT_NUMBER_RULES: NumberRule[] = ['no-adjacent-6-8'];
+
+// 'spiral' lays the lettered tokens of the base game around the island,
+// 'balanced' solves for the mode's rules and 'random' ignores them
+export type NumberPlacement = 'spiral' | 'balanced' | 'random';
+
+export const NUMBER_PLACEMENT_LABELS: Record<NumberPlacement, string> = {
+  spiral: 'Spiral',
+  balanced: 'Random balanced',
+  random: 'Random'
+};
+
+// Each resource's pips may stray this far from its fair share (at least
+// MIN_PIP_TOLERANCE pips)
+const PIP_TOLERANCE = 0.2;
+const MIN_PIP_TOLERANCE = 2;
+
+// Nodes one search may visit before it restarts in a fresh random order.
+// Backtracking that goes wrong early rarely recovers, while a restart usually
+// solves a feasible island within a few hundred nodes, so SEARCH_RESTARTS short
+// searches find far more layouts than one long one. A rule set whose search
+// space runs dry is proven impossible and never retried.
+const SEARCH_LIMIT = 5000;
+const SEARCH_RESTARTS = 10;
+
+const isRed = (n: number) => n === 6 || n === 8;
+const isExtreme = (n: number) => n === 2 || n === 12;
+
+const conflicts = (a: number, b: number, rules: Set<NumberRule>) =>
+  (rules.has('no-adjacent-6-8') && isRed(a) && isRed(b)) ||
+  (rules.has('no-adjacent-2-12') && isExtreme(a) && isExtreme(b)) ||
+  (rules.has('no-adjacent-same') && a === b);
+
+// ========== DISTRIBUTION ==========
+// Relative frequency of each number token, keyed by the number
+export type NumberRatios = Partial<Record<number, number>>;
+
+// The 18 tokens of the base game
+export const BASE_NUMBER_RATIOS: NumberRatios = { 2: 1, 3: 2, 4: 2, 5: 2, 6: 2, 8: 2, 9: 2, 10: 2, 11: 2, 12: 1 };
+
+// The 28 tokens of the 5-6 player extension
+export const EXTENSION_NUMBER_RATIOS: NumberRatios = { 2: 2, 3: 3, 4: 3, 5: 3, 6: 3, 8: 3, 9: 3, 10: 3, 11: 3, 12: 2 };
+
+// Scales the ratios to exactly `count` tokens by largest remainder, so the
+// official set comes out unchanged at its own size. Ties go to the number
+// with more pips, then the lower one.
+export const getNumberDistribution = (count: number, ratios: NumberRatios = BASE_NUMBER_RATIOS): number[] => {
+  const weights = Object.entries(ratios)
+    .map(([number, weight]) => ({ number: Number(number), weight: weight ?? 0 }))
+    .filter(({ number, weight }) => getPips(number) > 0 && weight > 0);
+  const total = weights.reduce((sum, { weight }) => sum + weight, 0);
+  if (count <= 0 || total === 0) return [];
+
+  const shares = weights.map(({ number, weight }) => {
+    const quota = (count * weight) / total;
+    return { number, tokens: Math.floor(quota), remainder: quota - Math.floor(quota) };
+  });
+  let missing = count - shares.reduce((sum, share) => sum + share.tokens, 0);
+  [...shares]
+    .sort((a, b) => b.remainder - a.remainder || getPips(b.number) - getPips(a.number) || a.number - b.number)
+    .forEach(share => {
+      if (missing <= 0) return;
+      share.tokens++;
+      missing--;
+    });
+
+  return shares
+    .sort((a, b) => a.number - b.number)
+    .flatMap(({ number, tokens }) => Array<number>(tokens).fill(number));
+};
+
+// ========== SOLVER ==========
+// Backtracking search over the token multiset: always fills the most
+// constrained hex next and tries each distinct number once. Only tokens from
+// the distribution are used. No numbers with exhausted unset means no layout
+// exists; exhausted means the node limit ran out first and nothing is known.
+interface SearchResult {
+  numbers: Map<string, number> | null;
+  exhausted: boolean;
+}
+
+const solve = (
+  tiles: NumberTile[],
+  distribution: number[],
+  rules: Set<NumberRule>,
+  rng: Rng,
+  limit = SEARCH_LIMIT
+): SearchResult => {
+  const indexByKey = new Map(tiles.map((tile, i) => [tile.key, i]));
+  const neighbors = tiles.map(tile => getAdjacentHexes(tile.q, tile.r)
+    .map(adj => indexByKey.get(hexKey(adj.q, adj.r)))
+    .filter((i): i is number => i !== undefined));
+
+  const counts = new Map<number, number>();
+  distribution.forEach(n => counts.set(n, (counts.get(n) ?? 0) + 1));
+  const values = Array.from(counts.keys());
+
+  // Fair pip share per resource, from the average token on this island
+  const averagePips = distribution.reduce((sum, n) => sum + getPips(n), 0) / Math.max(1, distribution.length);
+  const pipSum = new Map<ResourceType, number>();
+  const pipLeft = new Map<ResourceType, number>();
+  tiles.forEach(({ resource }) => {
+    if (!resource) return;
+    pipSum.set(resource, 0);
+    pipLeft.set(resource, (pipLeft.get(resource) ?? 0) + 1);
+  });
+  const pipBounds = new Map(Array.from(pipLeft, ([resource, hexes]) => {
+    const target = hexes * averagePips;
+    const tolerance = Math.max(MIN_PIP_TOLERANCE, target * PIP_TOLERANCE);
+    return [resource, { min: target - tolerance, max: target + tolerance }];
+  }));
+
+  const assigned: number[] = Array(tiles.length).fill(0);
+  let nodes = 0;
+
+  // Pips of the tokens still in the bag, smallest first, summed up so the
+  // cheapest and dearest k tokens are one lookup
+  const getPool = () => {
+    const pips = values.flatMap(n => Array<number>(counts.get(n)!).fill(getPips(n))).sort((a, b) => a - b);
+    const prefix = [0];
+    pips.forEach(p => prefix.push(prefix[prefix.length - 1] + p));
+    return {
+      lowest: (k: number) => prefix[k],
+      highest: (k: number) => prefix[pips.length] - prefix[pips.length - k],
+      average: pips.length > 0 ? prefix[pips.length] / pips.length : 0
+    };
+  };
+  type Pool = ReturnType<typeof getPool>;
+
+  // Whether the resource can still land inside its bounds once its other
+  // hexes take the cheapest or the dearest tokens left
+  const pipsFit = (resource: ResourceType, number: number, pool: Pool) => {
+    const bounds = pipBounds.get(resource)!;
+    const sum = pipSum.get(resource)! + getPips(number);
+    const left = pipLeft.get(resource)! - 1;
+    return sum + pool.lowest(left) <= bounds.max && sum + pool.highest(left) >= bounds.min;
+  };
+
+  const getCandidates = (i: number, pool: Pool) => values.filter(number =>
+    counts.get(number)! > 0 &&
+    !neighbors[i].some(j => assigned[j] !== 0 && conflicts(number, assigned[j], rules)) &&
+    (!rules.has('balanced-pips') || !tiles[i].resource || pipsFit(tiles[i].resource, number, pool)));
+
+  // Tokens that adjacency rules restrict are the hardest to fit late, so
+  // they go down first; with balanced pips the tokens that keep the resource
+  // closest to its fair share are tried next. Ties stay in random order.
+  const isRestricted = (number: number) =>
+    (rules.has('no-adjacent-6-8') && isRed(number)) || (rules.has('no-adjacent-2-12') && isExtreme(number));
+  const orderCandidates = (i: number, candidates: number[], pool: Pool) => {
+    const resource = tiles[i].resource;
+    const bounds = resource && pipBounds.get(resource);
+    const deviation = (number: number) => !resource || !bounds || !rules.has('balanced-pips')
+      ? 0
+      : Math.abs(pipSum.get(resource)! + getPips(number) + (pipLeft.get(resource)! - 1) * pool.average -
+          (bounds.min + bounds.max) / 2);
+    return rng.shuffle(candidates)
+      .sort((a, b) => Number(isRestricted(b)) - Number(isRestricted(a)) || deviation(a) - deviation(b));
+  };
+
+  const setToken = (i: number, number: number, delta: 1 | -1) => {
+    assigned[i] = delta === 1 ? number : 0;
+    counts.set(number, counts.get(number)! - delta);
+    const resource = tiles[i].resource;
+    if (resource) {
+      pipSum.set(resource, pipSum.get(resource)! + delta * getPips(number));
+      pipLeft.set(resource, pipLeft.get(resource)! - delta);
+    }
+  };
+
+  const search = (unassigned: number): boolean => {
+    if (unassigned === 0) return true;
+    if (++nodes > limit) return false;
+
+    const pool = getPool();
+    let best = -1;
+    let bestCandidates: number[] = [];
+    for (let i = 0; i < tiles.length; i++) {
+      if (assigned[i] !== 0) continue;
+      const candidates = getCandidates(i, pool);
+      // Some hex can no longer take any token - dead end
+      if (candidates.length === 0) return false;
+      if (best === -1 || candidates.length < bestCandidates.length) {
+        best = i;
+        bestCandidates = candidates;
+      }
+    }
+
+    for (const number of orderCandidates(best, bestCandidates, pool)) {
+      setToken(best, number, 1);
+      if (search(unassigned - 1)) return true;
+      setToken(best, number, -1);
+      if (nodes > limit) return false;
+    }
+    return false;
+  };
+
+  const found = search(tiles.length);
+  return {
+    numbers: found ? new Map(tiles.map((tile, i) => [tile.key, assigned[i]])) : null,
+    exhausted: !found && nodes > limit
+  };
+};
+
+// Restarts the search until it finds a layout or proves there is none. Null
+// when neither happened within the restarts.
+const solveWithRestarts = (tiles: NumberTile[], distribution: number[], rules: Set<NumberRule>, rng: Rng) => {
+  for (let attempt = 0; attempt < SEARCH_RESTARTS; attempt++) {
+    const result = solve(tiles, distribution, rules, rng);
+    if (!result.exhausted) return result.numbers;
+  }
+  return null;
+};
+
+const getNumberTiles = (board: Map<string, Hex>): NumberTile[] => {
+  const tiles: NumberTile[] = [];
+  board.forEach((hex, key) => {
+    if (hex.terrain && hex.terrain !== 'desert' && hex.terrain !== 'water') {
+      tiles.push({ key, q: hex.q, r: hex.r, resource: TERRAIN_RESOURCES[hex.terrain] ?? null });
+    }
+  });
+  return tiles;
+};
+
+// ========== SPIRAL ==========
+// Tokens A-R of the base game in the order they go down
+const SPIRAL_TOKENS = [5, 2, 6, 3, 8, 10, 9, 12, 11, 4, 8, 10, 9, 4, 5, 6, 3, 11];
+
+// Axial directions, counterclockwise on screen
+const DIRECTIONS: HexCoord[] = [
+  { q: 1, r: 0 }, { q: 1, r: -1 }, { q: 0, r: -1 },
+  { q: -1, r: 0 }, { q: -1, r: 1 }, { q: 0, r: 1 }
+];
+
+const getDistance = (q: number, r: number) => Math.max(Math.abs(q), Math.abs(r), Math.abs(q + r));
+
+// Every position from the outer ring inwards, counterclockwise, each ring
+// starting at the same corner
+const getSpiralOrder = (radius: number, corner: number): HexCoord[] => {
+  const order: HexCoord[] = [];
+  for (let ring = radius; ring > 0; ring--) {
+    const start = DIRECTIONS[(corner + 4) % 6];
+    let q = start.q * ring;
+    let r = start.r * ring;
+    for (let side = 0; side < 6; side++) {
+      const direction = DIRECTIONS[(corner + side) % 6];
+      for (let i = 0; i < ring; i++) {
+        order.push({ q, r });
+        q += direction.q;
+        r += direction.r;
+      }
+    }
+  }
+  order.push({ q: 0, r: 0 });
+  return order;
+};
+
+// The letter sequence, repeated for as long as the distribution still has
+// those numbers - on the base island this is exactly A-R
+const getSpiralTokens = (distribution: number[]): number[] => {
+  const counts = new Map<number, number>();
+  distribution.forEach(n => counts.set(n, (counts.get(n) ?? 0) + 1));
+  const tokens: number[] = [];
+  while (tokens.length < distribution.length) {
+    SPIRAL_TOKENS.forEach(n => {
+      if (!counts.get(n)) return;
+      counts.set(n, counts.get(n)! - 1);
+      tokens.push(n);
+    });
+  }
+  return tokens;
+};
+
+// Starts in a random corner and skips every hex without a number
+const placeSpiral = (tiles: NumberTile[], distribution: number[], rng: Rng): Map<string, number> => {
+  const byKey = new Set(tiles.map(tile => tile.key));
+  const radius = Math.max(0, ...tiles.map(tile => getDistance(tile.q, tile.r)));
+  const tokens = getSpiralTokens(distribution);
+  const numbers = new Map<string, number>();
+  getSpiralOrder(radius, rng.int(6)).forEach(({ q, r }) => {
+    const key = hexKey(q, r);
+    if (byKey.has(key)) numbers.set(key, tokens[numbers.size]);
+  });
+  return numbers;
+};
+
+// ========== NUMBER TOKENS ==========
+export interface NumberOptions {
+  ratios: NumberRatios;
+  placement: NumberPlacement;
+  rules: NumberRule[];
+}
+
+export interface NumberAssignment {
+  numbers: Map<string, number>;
+  // Rules that had to be dropped because no layout satisfied them alongside
+  // the more important ones
+  unmetRules: NumberRule[];
+}
+
+// Assigns number tokens to every resource hex of a finished board.
+// Desert and water never get a number - gold DOES get numbers. If the rules
+// cannot all hold, each rule is kept in priority order as long as a layout
+// still exists with it, so a rule is only dropped for one it conflicts with
+// (or, on islands too tangled to settle within the restarts, when no layout
+// turned up). With no rules left any order of the tokens is valid.
+export const assignNumbers = (
+  board: Map<string, Hex>,
+  { ratios, placement, rules }: NumberOptions,
+  rng: Rng
+): NumberAssignment => {
+  const tiles = getNumberTiles(board);
+  const distribution = getNumberDistribution(tiles.length, ratios);
+  if (placement === 'spiral') return { numbers: placeSpiral(tiles, distribution, rng), unmetRules: [] };
+
+  const active = placement === 'random' ? [] : NUMBER_RULES.filter(rule => rules.includes(rule));
+
+  const kept: NumberRule[] = [];
+  let best: Map<string, number> | null = null;
+  for (const rule of active) {
+    const solution = solveWithRestarts(tiles, distribution, new Set([...kept, rule]), rng);
+    if (!solution) continue;
+    kept.push(rule);
+    best = solution;
+  }
+
+  return {
+    // The rule-free search never backtracks, so it needs no budget
+    numbers: best ?? solve(tiles, distribution, new Set(), rng, Infinity).numbers,
+    unmetRules: active.filter(rule => !kept.includes(rule))
+  };
+};
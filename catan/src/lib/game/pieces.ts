@@ -0,0 +1,84 @@
+import { HexCoord, TerrainType } from './hex';
+import { Rng } from './rng';
+
+// ========== PIECES ==========
+// A piece is one to three hexes that fall and lock in together, the hex-grid
+// answer to Tetris tetrominoes. Cell offsets are axial and relative to the
+// pivot cell, which always sits at (0, 0).
+
+export interface PieceCell {
+  dq: number;
+  dr: number;
+  terrain: TerrainType;
+}
+
+export interface Piece {
+  cells: PieceCell[];
+}
+
+export interface PlacedCell extends HexCoord {
+  terrain: TerrainType;
+}
+
+type Shape = Array<{ dq: number; dr: number }>;
+
+const MULTI_HEX_SHAPES: Shape[] = [
+  // Domino
+  [{ dq: 0, dr: 0 }, { dq: 0, dr: 1 }],
+  // Straight tromino
+  [{ dq: 0, dr: 0 }, { dq: 0, dr: 1 }, { dq: 0, dr: 2 }],
+  // Triangle tromino - every cell touches the other two
+  [{ dq: 0, dr: 0 }, { dq: 0, dr: 1 }, { dq: 1, dr: 0 }],
+  // Bent tromino
+  [{ dq: 0, dr: 0 }, { dq: 0, dr: 1 }, { dq: 1, dr: 1 }]
+];
+
+// Share of drops that become multi-hex pieces when they are enabled
+const MULTI_HEX_CHANCE = 0.35;
+
+export const createSinglePiece = (terrain: TerrainType): Piece => ({
+  cells: [{ dq: 0, dr: 0, terrain }]
+});
+
+// Groups a shuffled tile bag into pieces. Tiles are consumed in bag order, so
+// the terrain totals never change - only how many land per drop.
+export const createPieceQueue = (bag: TerrainType[], rng: Rng, multiHex: boolean): Piece[] => {
+  const pieces: Piece[] = [];
+  let index = 0;
+
+  while (index < bag.length) {
+    const left = bag.length - index;
+    const shapes = MULTI_HEX_SHAPES.filter(shape => shape.length <= left);
+
+    if (multiHex && shapes.length > 0 && rng.next() < MULTI_HEX_CHANCE) {
+      const shape = rng.pick(shapes);
+      pieces.push({ cells: shape.map((offset, i) => ({ ...offset, terrain: bag[index + i] })) });
+      index += shape.length;
+    } else {
+      pieces.push(createSinglePiece(bag[index]));
+      index++;
+    }
+  }
+
+  return pieces;
+};
+
+// 60° clockwise in axial coordinates: (q, r) -> (-r, q + r)
+const rotateOffset = (dq: number, dr: number, steps: number) => {
+  let q = dq;
+  let r = dr;
+  for (let i = 0; i < ((steps % 6) + 6) % 6; i++) {
+    [q, r] = [-r, q + r];
+  }
+  return { dq: q, dr: r };
+};
+
+// Board cells covered by a piece with its pivot at position and the given
+// rotation in degrees (multiples of 60)
+export const getPieceCells = (piece: Piece, position: HexCoord, rotation: number): PlacedCell[] => {
+  const steps = Math.round(rotation / 60);
+  return piece.cells.map(cell => {
+    const { dq, dr } = rotateOffset(cell.dq, cell.dr, steps);
+    return { q: position.q + dq, r: position.r + dr, terrain: cell.terrain };
+  });
+};
@@ -0,0 +1,32 @@
+import { ResourceType } from './hex';
+
+// ========== HOTSEAT PLAYERS ==========
+// Players share one bag and one island and take turns dropping pieces.
+// Player indices are stored on placed hexes, so everything else (colour,
+// name) is derived here.
+
+export interface Player {
+  index: number;
+  name: string;
+  color: string;
+}
+
+// Classic Catan colours, plus green and brown from the 5-6 player extension
+const PLAYER_COLORS = ['#dc2626', '#2563eb', '#f8fafc', '#ea580c', '#16a34a', '#92400e'];
+
+export const MAX_PLAYERS = PLAYER_COLORS.length;
+
+export const createPlayers = (count: number): Player[] =>
+  Array.from({ length: Math.max(1, Math.min(MAX_PLAYERS, count)) }, (_, index) => ({
+    index,
+    name: `Player ${index + 1}`,
+    color: PLAYER_COLORS[index]
+  }));
+
+export const createEmptyResources = (): Record<ResourceType, number> => ({
+  wood: 0,
+  wheat: 0,
+  ore: 0,
+  sheep: 0,
+  brick: 0
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { ROBBER_ROLL, canMoveRobber, getGoldProduction, getProduction, placeRobber } from './production';
+import { createRng } from './rng';
+import { Hex, TerrainType, hexKey } from './hex';
+import { Settlement, getVertexKey } from './settlements';
+
+// Three hexes around one corner, numbered 6, 6 and 9
+const TILES: Array<[number, number, TerrainType, number]> = [[0, 0, 'forest', 6], [1, 0, 'hill', 6], [1, -1, 'field', 9]];
+const CORNER = getVertexKey([{ q: 0, r: 0 }, { q: 1, r: 0 }, { q: 1, r: -1 }]);
+// Touches only the forest
+const FOREST_CORNER = getVertexKey([{ q: 0, r: 0 }, { q: -1, r: 0 }, { q: 0, r: -1 }]);
+
+const createState = (settlements: Settlement[], tiles = TILES) => ({
+  board: new Map<string, Hex>(tiles.map(([q, r, terrain]) => [hexKey(q, r), { q, r, terrain }])),
+  numbers: new Map(tiles.map(([q, r, , number]) => [hexKey(q, r), number])),
+  settlements: new Map(settlements.map(settlement => [settlement.vertex, settlement])),
+  playerCount: 2,
+  robber: null,
+  citiesAndKnights: false
+});
+
+describe('getProduction', () => {
+  it('pays every settlement on a hex showing the roll', () => {
+    const state = createState([{ vertex: CORNER, owner: 0, isCity: false }, { vertex: FOREST_CORNER, owner: 1, isCity: false }]);
+    const [first, second] = getProduction(state, 6);
+    expect(first).toMatchObject({ wood: 1, brick: 1, wheat: 0 });
+    expect(second).toMatchObject({ wood: 1, brick: 0, wheat: 0 });
+  });
+
+  it('pays a city twice', () => {
+    const [hand] = getProduction(createState([{ vertex: CORNER, owner: 0, isCity: true }]), 9);
+    expect(hand).toMatchObject({ wheat: 2, wood: 0, brick: 0 });
+  });
+
+  it('pays nothing for a total no hex shows', () => {
+    const gains = getProduction(createState([{ vertex: CORNER, owner: 0, isCity: true }]), 8);
+    gains.forEach(hand => expect(Object.values(hand).every(count => count === 0)).toBe(true));
+  });
+
+  it('turns gold field payouts into grants instead of resources', () => {
+    const tiles: typeof TILES = [[0, 0, 'gold', 5], [1, 0, 'hill', 5], [1, -1, 'field', 9]];
+    const state = createState([{ vertex: CORNER, owner: 0, isCity: true }], tiles);
+    expect(getGoldProduction(state, 5)).toEqual([2, 0]);
+    expect(getProduction(state, 5)[0]).toMatchObject({ brick: 2, wheat: 0 });
+  });
+});
+
+describe('robber', () => {
+  it('blocks production on the hex it stands on', () => {
+    const state = { ...createState([{ vertex: CORNER, owner: 0, isCity: false }]), robber: { q: 0, r: 0 } };
+    expect(getProduction(state, 6)[0]).toMatchObject({ wood: 0, brick: 1 });
+  });
+
+  it('starts on a desert, or nowhere without one', () => {
+    const tiles: typeof TILES = [...TILES, [0, 1, 'desert', 0]];
+    expect(placeRobber(createState([], tiles).board, createRng(1))).toEqual({ q: 0, r: 1 });
+    expect(placeRobber(createState([]).board, createRng(1))).toBeNull();
+  });
+
+  it('moves to any other land hex', () => {
+    const state = { ...createState([]), robber: { q: 0, r: 0 } };
+    expect(canMoveRobber(state, 1, 0)).toBe(true);
+    expect(canMoveRobber(state, 0, 0)).toBe(false);
+    expect(canMoveRobber(state, 5, 5)).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+import type { GameState } from './engine';
+import { HexCoord, ResourceType, TERRAIN_RESOURCES, TerrainType, hexKey } from './hex';
+import { CommodityHand, TERRAIN_COMMODITIES, createEmptyCommodities } from './knights';
+import { createEmptyResources } from './players';
+import { Rng } from './rng';
+import { getVertexHexes } from './settlements';
+
+// ========== PRODUCTION ==========
+// Dice rolls on the finished island. Every hex showing the rolled number pays
+// out to the settlements (1) and cities (2) on its corners - unless the robber
+// is standing on it.
+
+export type ResourceHand = Record<ResourceType, number>;
+
+// A single roll or a batch - dice and total are the batch's last roll, gains
+// what each player received over the whole batch
+export interface DiceRoll {
+  dice: [number, number];
+  total: number;
+  gains: ResourceHand[];
+  commodities: CommodityHand[];
+  // Gold field grants, each turned into a resource of the player's choice
+  gold: number[];
+  times: number;
+}
+
+export const rollDice = (rng: Rng): [number, number] => [1 + rng.int(6), 1 + rng.int(6)];
+
+type ProductionState = Pick<GameState, 'board' | 'numbers' | 'settlements' | 'playerCount' | 'robber' | 'citiesAndKnights'>;
+
+// Every producing hex next to a settlement, once per settlement corner
+const forEachProducingHex = (
+  state: ProductionState,
+  total: number,
+  visit: (terrain: TerrainType, owner: number, isCity: boolean) => void
+) => {
+  const blocked = state.robber && hexKey(state.robber.q, state.robber.r);
+  state.settlements.forEach(settlement => {
+    getVertexHexes(settlement.vertex).forEach(c => {
+      const key = hexKey(c.q, c.r);
+      const terrain = state.board.get(key)?.terrain;
+      if (!terrain || key === blocked || state.numbers.get(key) !== total) return;
+      visit(terrain, settlement.owner, settlement.isCity);
+    });
+  });
+};
+
+// With Cities & Knights a city on forest, pasture or mountain takes one
+// resource and one commodity instead of two resources
+export const getProduction = (state: ProductionState, total: number): ResourceHand[] => {
+  const gains = Array.from({ length: state.playerCount }, createEmptyResources);
+  forEachProducingHex(state, total, (terrain, owner, isCity) => {
+    const resource = TERRAIN_RESOURCES[terrain];
+    if (!resource) return;
+    const commodity = state.citiesAndKnights && TERRAIN_COMMODITIES[terrain];
+    gains[owner][resource] += isCity && !commodity ? 2 : 1;
+  });
+  return gains;
+};
+
+// Gold fields pay out a free choice - one per settlement, two per city
+export const getGoldProduction = (state: ProductionState, total: number): number[] => {
+  const grants: number[] = Array(state.playerCount).fill(0);
+  forEachProducingHex(state, total, (terrain, owner, isCity) => {
+    if (terrain === 'gold') grants[owner] += isCity ? 2 : 1;
+  });
+  return grants;
+};
+
+export const getCommodityProduction = (state: ProductionState, total: number): CommodityHand[] => {
+  const gains = Array.from({ length: state.playerCount }, createEmptyCommodities);
+  if (!state.citiesAndKnights) return gains;
+  forEachProducingHex(state, total, (terrain, owner, isCity) => {
+    const commodity = TERRAIN_COMMODITIES[terrain];
+    if (commodity && isCity) gains[owner][commodity]++;
+  });
+  return gains;
+};
+
+export const addResources = (a: ResourceHand, b: ResourceHand): ResourceHand => ({
+  wood: a.wood + b.wood,
+  wheat: a.wheat + b.wheat,
+  ore: a.ore + b.ore,
+  sheep: a.sheep + b.sheep,
+  brick: a.brick + b.brick
+});
+
+export const countResources = (hand: ResourceHand) =>
+  Object.values(hand).reduce((sum, count) => sum + count, 0);
+
+// ========== ROBBER ==========
+// Rolling a 7 produces nothing; instead the robber has to move
+
+export const ROBBER_ROLL = 7;
+
+// The robber starts on a desert - on any of them when there are several
+export const placeRobber = (board: GameState['board'], rng: Rng): HexCoord | null => {
+  const deserts = Array.from(board.values()).filter(hex => hex.terrain === 'desert');
+  if (deserts.length === 0) return null;
+  const { q, r } = rng.pick(deserts);
+  return { q, r };
+};
+
+// Any built land hex other than the one it is standing on
+export const canMoveRobber = (state: Pick<GameState, 'board' | 'robber'>, q: number, r: number): boolean => {
+  const terrain = state.board.get(hexKey(q, r))?.terrain;
+  if (!terrain || terrain === 'water') return false;
+  return !state.robber || state.robber.q !== q || state.robber.r !== r;
+};
@@ -0,0 +1,67 @@
+// ========== SEEDED RNG ==========
+// Mulberry32: tiny, fast and good enough for shuffling tiles. The whole
+// generator state is one 32-bit integer, so it can live inside GameState and
+// every step stays a pure function of its input.
+
+export interface Rng {
+  // Float in [0, 1)
+  next: () => number;
+  // Integer in [0, maxExclusive)
+  int: (maxExclusive: number) => number;
+  pick: <T>(items: T[]) => T;
+  // Returns a shuffled copy
+  shuffle: <T>(items: T[]) => T[];
+  getState: () => number;
+}
+
+export const createRng = (state: number): Rng => {
+  let current = state >>> 0;
+
+  const next = () => {
+    current = (current + 0x6d2b79f5) >>> 0;
+    let t = current;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const int = (maxExclusive: number) => Math.floor(next() * maxExclusive);
+
+  return {
+    next,
+    int,
+    pick: items => items[int(items.length)],
+    shuffle: items => {
+      const shuffled = [...items];
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = int(i + 1);
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+      }
+      return shuffled;
+    },
+    getState: () => current
+  };
+};
+
+// FNV-1a, so any text (a shared code, a date) can become a seed
+export const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const SEED_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+// Short, human-friendly seed for sharing - no 0/O or 1/I mix-ups
+export const generateSeed = (length: number = 6): string => {
+  let seed = '';
+  for (let i = 0; i < length; i++) {
+    seed += SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)];
+  }
+  return seed;
+};
+
+export const normalizeSeed = (seed: string) => seed.trim().toUpperCase();
@@ -0,0 +1,135 @@
+import type { GameState } from './engine';
+import { HexCoord, hexKey } from './hex';
+import { Intersection, getIntersections, getVertexKey } from './settlements';
+
+// ========== EDGES ==========
+// A road runs along the edge between two hexes, from one intersection to the
+// next. Like intersections, edges are identified by the hexes they separate.
+
+export interface Edge {
+  key: string;
+  hexes: HexCoord[];
+  vertices: [string, string];
+}
+
+export interface Road {
+  edge: string;
+  vertices: [string, string];
+  owner: number;
+}
+
+// Roads in a player's supply, as in the base game
+export const ROAD_SUPPLY = 15;
+
+// Longest Road needs at least this many connected segments and is worth 2 VP
+export const LONGEST_ROAD_MIN = 5;
+export const LONGEST_ROAD_POINTS = 2;
+
+export const getEdges = (intersections: Intersection[]): Edge[] => {
+  const byKey = new Map(intersections.map(i => [i.key, i]));
+  const edges = new Map<string, Edge>();
+
+  intersections.forEach(intersection => {
+    intersection.neighbors.forEach(neighborKey => {
+      const neighbor = byKey.get(neighborKey);
+      if (!neighbor) return;
+      const shared = intersection.hexes.filter(a => neighbor.hexes.some(b => a.q === b.q && a.r === b.r));
+      const key = getVertexKey(shared);
+      if (!edges.has(key)) edges.set(key, { key, hexes: shared, vertices: [intersection.key, neighborKey] });
+    });
+  });
+
+  return Array.from(edges.values());
+};
+
+// ========== TURNS ==========
+type RoadState = Pick<GameState, 'board' | 'playerCount' | 'settlements' | 'roads'>;
+
+// During setup every settlement is followed by its road; afterwards players
+// take turns extending their networks, tracked in state.roadTurn.
+export const getRoadTurn = (state: Pick<GameState, 'settlements' | 'roads' | 'roadTurn'>): number | null => {
+  const placed = Array.from(state.settlements.values());
+  if (state.roads.size < placed.length) return placed[state.roads.size].owner;
+  return state.roadTurn;
+};
+
+// A road has to border a built hex and connect to the owner's settlement or
+// road network. Networks cannot continue through an opponent's settlement.
+export const canPlaceRoad = (state: RoadState, edge: Edge, owner: number): boolean => {
+  if (state.roads.has(edge.key)) return false;
+
+  const touchesLand = edge.hexes.some(c => {
+    const terrain = state.board.get(hexKey(c.q, c.r))?.terrain;
+    return terrain !== undefined && terrain !== 'water';
+  });
+  if (!touchesLand) return false;
+
+  // Setup roads start at the settlement that was just placed
+  const placed = Array.from(state.settlements.values());
+  if (state.roads.size < placed.length) {
+    return edge.vertices.includes(placed[state.roads.size].vertex);
+  }
+
+  const roads = Array.from(state.roads.values());
+  return edge.vertices.some(vertex => {
+    const settlement = state.settlements.get(vertex);
+    if (settlement) return settlement.owner === owner;
+    return roads.some(road => road.owner === owner && road.vertices.includes(vertex));
+  });
+};
+
+// The next player after `last` with roads left in their supply and a connected
+// edge to build on. Players who are walled in are skipped, and the phase is
+// over (null) once nobody can build.
+export const getNextRoadTurn = (state: RoadState & Pick<GameState, 'hexes'>, last: number): number | null => {
+  const edges = getEdges(getIntersections(state.hexes));
+  const roads = Array.from(state.roads.values());
+  for (let i = 1; i <= state.playerCount; i++) {
+    const player = (last + i) % state.playerCount;
+    const built = roads.filter(road => road.owner === player).length;
+    if (built < ROAD_SUPPLY && edges.some(edge => canPlaceRoad(state, edge, player))) return player;
+  }
+  return null;
+};
+
+// ========== LONGEST ROAD ==========
+// Longest trail through a player's roads - no edge twice, and an opponent's
+// settlement ends the trail. Road networks are small, so a plain depth-first
+// search from every vertex is fast enough.
+export const getLongestRoad = (state: Pick<GameState, 'settlements' | 'roads'>, owner: number): number => {
+  const roads = Array.from(state.roads.values()).filter(road => road.owner === owner);
+  const byVertex = new Map<string, Road[]>();
+  roads.forEach(road => road.vertices.forEach(vertex => {
+    byVertex.set(vertex, [...(byVertex.get(vertex) ?? []), road]);
+  }));
+
+  const isBlocked = (vertex: string) => {
+    const settlement = state.settlements.get(vertex);
+    return settlement !== undefined && settlement.owner !== owner;
+  };
+
+  const walk = (vertex: string, used: Set<string>): number => {
+    let best = 0;
+    for (const road of byVertex.get(vertex) ?? []) {
+      if (used.has(road.edge)) continue;
+      const next = road.vertices[0] === vertex ? road.vertices[1] : road.vertices[0];
+      used.add(road.edge);
+      best = Math.max(best, 1 + (isBlocked(next) ? 0 : walk(next, used)));
+      used.delete(road.edge);
+    }
+    return best;
+  };
+
+  return Array.from(byVertex.keys()).reduce((best, vertex) => Math.max(best, walk(vertex, new Set())), 0);
+};
+
+// The current holder keeps the card on a tie; otherwise it goes to the single
+// longest road of LONGEST_ROAD_MIN or more, or to nobody.
+export const getLongestRoadHolder = (lengths: number[], holder: number | null): number | null => {
+  const best = Math.max(0, ...lengths);
+  if (best < LONGEST_ROAD_MIN) return null;
+  if (holder !== null && lengths[holder] === best) return holder;
+
+  const leaders = lengths.flatMap((length, player) => (length === best ? [player] : []));
+  return leaders.length === 1 ? leaders[0] : null;
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { scoreIsland } from './scoring';
+import { Hex, TerrainType, generateCatanBoard, hexKey } from './hex';
+
+// The base island's cells with the given tiles built on them
+const createBoard = (tiles: Array<[number, number, TerrainType, number]>) => ({
+  hexes: generateCatanBoard(2),
+  board: new Map<string, Hex>(tiles.map(([q, r, terrain, owner]) => [hexKey(q, r), { q, r, terrain, owner }])),
+  numbers: new Map<string, number>()
+});
+
+const getRule = (state: Parameters<typeof scoreIsland>[0], id: string) =>
+  scoreIsland(state).breakdown.find(rule => rule.id === id);
+
+describe('scoreIsland', () => {
+  it('rewards every resource type beyond the second', () => {
+    const state = createBoard([[0, 0, 'forest', 0], [1, 0, 'field', 0], [0, 1, 'mountain', 0], [-1, 1, 'desert', 0]]);
+    expect(getRule(state, 'diversity')?.points).toBe(1);
+  });
+
+  describe('desert clumps', () => {
+    it('charges the island once per touching pair', () => {
+      const state = createBoard([[0, 0, 'desert', 0], [1, 0, 'desert', 1], [0, 1, 'field', 0]]);
+      expect(getRule(state, 'desert-clumps')?.points).toBe(-1);
+    });
+
+    it('charges a player once for a pair they own both hexes of', () => {
+      const state = createBoard([[0, 0, 'desert', 0], [1, 0, 'desert', 0]]);
+      expect(getRule({ ...state, owner: 0 }, 'desert-clumps')?.points).toBe(-1);
+    });
+
+    it('charges both players for a pair they share', () => {
+      const state = createBoard([[0, 0, 'desert', 0], [1, 0, 'desert', 1]]);
+      expect(getRule({ ...state, owner: 0 }, 'desert-clumps')?.points).toBe(-1);
+      expect(getRule({ ...state, owner: 1 }, 'desert-clumps')?.points).toBe(-1);
+    });
+  });
+
+  it('charges a hole to the player whose tile sealed it', () => {
+    // (0, 0) is empty with player 1's tile directly above it
+    const state = createBoard([[0, -1, 'field', 1], [0, 1, 'field', 0], [0, 2, 'field', 0]]);
+    expect(getRule({ ...state, owner: 1 }, 'holes')?.points).toBeLessThan(0);
+    expect(getRule({ ...state, owner: 0 }, 'holes')?.detail).toBe('0 sealed-off hexes');
+  });
+});
@@ -0,0 +1,305 @@
+import type { GameState } from './engine';
+import { Hex, RESOURCE_TYPES, ResourceType, TERRAIN_RESOURCES, getAdjacentHexes, hexKey } from './hex';
+import { getPips } from './numbers';
+import { LONGEST_ROAD_MIN, LONGEST_ROAD_POINTS } from './roads';
+import { ISLAND_BONUS_POINTS, getIslands } from './islands';
+import { DEFENDER_POINTS, PILLAGE_POINTS } from './knights';
+import { countResources } from './production';
+
+// ========== ISLAND SCORING ==========
+// Turns a (finished or in-progress) island into victory points. Every rule
+// reports its own line so the stats panel can explain the total.
+
+export interface ScoreRule {
+  id: string;
+  label: string;
+  points: number;
+  detail: string;
+}
+
+export interface IslandScore {
+  total: number;
+  breakdown: ScoreRule[];
+}
+
+// owner limits the score to one hotseat player's tiles
+type ScoredBoard = Pick<GameState, 'hexes' | 'board' | 'numbers'> &
+  Partial<Pick<
+    GameState,
+    'linesCleared' | 'maxCombo' | 'clearPoints' | 'settlements' | 'longestRoads' | 'longestRoadHolder' |
+    'seafarers' | 'citiesAndKnights' | 'barbarianAttacks' | 'goldTaken'
+  >> &
+  { owner?: number };
+
+// Minimum size for a run of identical terrain to count as a cluster
+const CLUSTER_MIN_SIZE = 3;
+const MAX_CLUSTER_POINTS = 4;
+
+// Line clear points needed for one victory point
+const CLEAR_POINTS_PER_VP = 5;
+
+// Resources chosen from gold fields needed for one victory point
+const GOLD_PER_VP = 3;
+const MAX_GOLD_POINTS = 2;
+
+// The tiles being scored - the whole island unless scoring a single player
+const getScoredTiles = ({ board, owner }: ScoredBoard): ScoredBoard['board'] => {
+  if (owner === undefined) return board;
+  return new Map(Array.from(board).filter(([, hex]) => hex.owner === owner));
+};
+
+const scoreDiversity = (state: ScoredBoard): ScoreRule => {
+  const board = getScoredTiles(state);
+  const present = new Set<ResourceType>();
+  board.forEach(hex => {
+    const resource = hex.terrain && TERRAIN_RESOURCES[hex.terrain];
+    if (resource) present.add(resource);
+  });
+
+  // 3+ resource types start scoring, all five is worth 3 VP
+  return {
+    id: 'diversity',
+    label: 'Resource Diversity',
+    points: Math.max(0, present.size - 2),
+    detail: `${present.size}/${RESOURCE_TYPES.length} resource types`
+  };
+};
+
+const scorePipBalance = (state: ScoredBoard): ScoreRule => {
+  const board = getScoredTiles(state);
+  const { numbers } = state;
+  const pips: Record<ResourceType, number> = { wood: 0, wheat: 0, ore: 0, sheep: 0, brick: 0 };
+  board.forEach((hex, key) => {
+    const resource = hex.terrain && TERRAIN_RESOURCES[hex.terrain];
+    const number = numbers.get(key);
+    if (resource && number) pips[resource] += getPips(number);
+  });
+
+  const totals = RESOURCE_TYPES.map(r => pips[r]);
+  const mean = totals.reduce((sum, p) => sum + p, 0) / totals.length;
+  if (mean === 0) {
+    return { id: 'pip-balance', label: 'Balanced Production', points: 0, detail: 'No number tokens yet' };
+  }
+
+  // Coefficient of variation - 0 means every resource is equally likely
+  const variance = totals.reduce((sum, p) => sum + (p - mean) ** 2, 0) / totals.length;
+  const spread = Math.sqrt(variance) / mean;
+  const points = spread <= 0.15 ? 3 : spread <= 0.3 ? 2 : spread <= 0.5 ? 1 : 0;
+
+  return {
+    id: 'pip-balance',
+    label: 'Balanced Production',
+    points,
+    detail: `${Math.round(spread * 100)}% pip spread between resources`
+  };
+};
+
+// Groups of identical terrain connected through shared edges
+export const findTerrainClusters = (board: ScoredBoard['board']): string[][] => {
+  const visited = new Set<string>();
+  const clusters: string[][] = [];
+
+  board.forEach((hex, key) => {
+    if (!hex.terrain || visited.has(key)) return;
+
+    const cluster: string[] = [];
+    const stack = [key];
+    visited.add(key);
+    while (stack.length > 0) {
+      const current = board.get(stack.pop()!)!;
+      cluster.push(hexKey(current.q, current.r));
+      for (const adj of getAdjacentHexes(current.q, current.r)) {
+        const adjKey = hexKey(adj.q, adj.r);
+        if (!visited.has(adjKey) && board.get(adjKey)?.terrain === hex.terrain) {
+          visited.add(adjKey);
+          stack.push(adjKey);
+        }
+      }
+    }
+    clusters.push(cluster);
+  });
+
+  return clusters;
+};
+
+const scoreClusters = (state: ScoredBoard): ScoreRule => {
+  const board = getScoredTiles(state);
+  const clusters = findTerrainClusters(board).filter(cluster => {
+    const terrain = board.get(cluster[0])?.terrain;
+    return cluster.length >= CLUSTER_MIN_SIZE && terrain && TERRAIN_RESOURCES[terrain];
+  });
+
+  return {
+    id: 'clusters',
+    label: 'Terrain Clusters',
+    points: Math.min(MAX_CLUSTER_POINTS, clusters.length),
+    detail: `${clusters.length} resource cluster${clusters.length === 1 ? '' : 's'} of ${CLUSTER_MIN_SIZE}+ hexes`
+  };
+};
+
+const scoreDesertClumps = (state: ScoredBoard): ScoreRule => {
+  const { board, owner } = state;
+  let clumps = 0;
+  // A player is charged for pairs they are part of. A pair with both hexes
+  // scored is counted from its lower key only.
+  getScoredTiles(state).forEach(hex => {
+    if (hex.terrain !== 'desert') return;
+    const key = hexKey(hex.q, hex.r);
+    for (const adj of getAdjacentHexes(hex.q, hex.r)) {
+      const adjKey = hexKey(adj.q, adj.r);
+      const neighbour = board.get(adjKey);
+      if (neighbour?.terrain !== 'desert') continue;
+      const bothScored = owner === undefined || neighbour.owner === owner;
+      if (!bothScored || key < adjKey) clumps++;
+    }
+  });
+
+  return {
+    id: 'desert-clumps',
+    label: 'Desert Clumps',
+    points: -clumps,
+    detail: `${clumps} desert pair${clumps === 1 ? '' : 's'} touching`
+  };
+};
+
+// An empty hex with a tile somewhere above it in its column can never be
+// reached by a falling tile again. Players are charged for the holes their
+// tiles sealed off.
+const scoreHoles = ({ hexes, board, owner }: ScoredBoard): ScoreRule => {
+  const holes = hexes.filter(hex => {
+    if (hex.isWater || board.get(hexKey(hex.q, hex.r))?.terrain) return false;
+    // The lowest tile above the hole is the one that sealed it
+    const cover = hexes
+      .filter(above => above.q === hex.q && above.r < hex.r)
+      .map(above => board.get(hexKey(above.q, above.r)))
+      .reduce<Hex | undefined>((lowest, tile) => (tile?.terrain && (!lowest || tile.r > lowest.r) ? tile : lowest), undefined);
+    return cover !== undefined && (owner === undefined || cover.owner === owner);
+  }).length;
+
+  return {
+    id: 'holes',
+    label: 'Unreachable Holes',
+    points: -holes,
+    detail: `${holes} sealed-off hex${holes === 1 ? '' : 'es'}`
+  };
+};
+
+const scoreLineClears = ({ linesCleared = 0, maxCombo, clearPoints = 0 }: ScoredBoard): ScoreRule => ({
+  id: 'line-clears',
+  label: 'Line Clears',
+  points: Math.floor(clearPoints / CLEAR_POINTS_PER_VP),
+  detail: `${linesCleared} line${linesCleared === 1 ? '' : 's'}${maxCombo !== undefined ? `, best combo x${maxCombo}` : ''}`
+});
+
+// One victory point per settlement and two per city, as in Catan
+const scoreSettlements = ({ settlements, owner }: ScoredBoard): ScoreRule => {
+  const built = Array.from(settlements?.values() ?? []).filter(s => owner === undefined || s.owner === owner);
+  const cities = built.filter(s => s.isCity).length;
+  const count = built.length - cities;
+  return {
+    id: 'settlements',
+    label: 'Settlements',
+    points: count + cities * 2,
+    detail: `${count} settlement${count === 1 ? '' : 's'}${cities > 0 ? `, ${cities} cit${cities === 1 ? 'y' : 'ies'}` : ''} built`
+  };
+};
+
+const scoreLongestRoad = ({ longestRoads = [], longestRoadHolder = null, owner }: ScoredBoard): ScoreRule => {
+  const length = owner === undefined ? Math.max(0, ...longestRoads) : longestRoads[owner] ?? 0;
+  const holds = longestRoadHolder !== null && (owner === undefined || longestRoadHolder === owner);
+  return {
+    id: 'longest-road',
+    label: 'Longest Road',
+    points: holds ? LONGEST_ROAD_POINTS : 0,
+    detail: holds
+      ? `${length} connected roads`
+      : length < LONGEST_ROAD_MIN
+        ? `${length}/${LONGEST_ROAD_MIN} connected roads`
+        : `${length} connected roads - not the longest`
+  };
+};
+
+// Seafarers - every island beyond the home island counts as discovered. A
+// player discovers the islands they placed tiles on.
+const scoreIslands = ({ board, owner }: ScoredBoard): ScoreRule => {
+  const islands = getIslands(board).filter(island =>
+    owner === undefined || island.some(c => board.get(hexKey(c.q, c.r))?.owner === owner));
+  const discovered = Math.max(0, islands.length - 1);
+  return {
+    id: 'islands',
+    label: 'Islands Discovered',
+    points: discovered * ISLAND_BONUS_POINTS,
+    detail: islands.length === 0
+      ? 'No land yet'
+      : `${discovered} beyond the home island (${islands.map(island => island.length).join(', ')} hexes)`
+  };
+};
+
+// Seafarers bonus for prospecting - the gold fields' free picks
+const scoreGold = ({ goldTaken = [], owner }: ScoredBoard): ScoreRule => {
+  const taken = goldTaken
+    .filter((_, player) => owner === undefined || player === owner)
+    .reduce((sum, hand) => sum + countResources(hand), 0);
+  return {
+    id: 'gold',
+    label: 'Gold Fields',
+    points: Math.min(MAX_GOLD_POINTS, Math.floor(taken / GOLD_PER_VP)),
+    detail: `${taken} resource${taken === 1 ? '' : 's'} chosen from gold`
+  };
+};
+
+// Cities & Knights - the island as a whole wins or loses each landing, a
+// player is credited as defender or charged for being pillaged
+const scoreBarbarians = ({ barbarianAttacks = [], owner }: ScoredBoard): ScoreRule => {
+  const won = barbarianAttacks.filter(attack => owner === undefined ? attack.defended : attack.defenders.includes(owner)).length;
+  const lost = barbarianAttacks.filter(attack => owner === undefined ? !attack.defended : attack.pillaged.includes(owner)).length;
+  return {
+    id: 'barbarians',
+    label: 'Barbarians',
+    points: won * DEFENDER_POINTS - lost * PILLAGE_POINTS,
+    detail: barbarianAttacks.length === 0
+      ? 'No landings yet'
+      : `${won} defended, ${lost} pillaged of ${barbarianAttacks.length} landing${barbarianAttacks.length === 1 ? '' : 's'}`
+  };
+};
+
+export const scoreIsland = (state: ScoredBoard): IslandScore => {
+  const breakdown = [
+    scoreDiversity(state),
+    scorePipBalance(state),
+    scoreClusters(state),
+    scoreLineClears(state),
+    scoreSettlements(state),
+    scoreLongestRoad(state),
+    ...(state.seafarers ? [scoreIslands(state), scoreGold(state)] : []),
+    ...(state.citiesAndKnights ? [scoreBarbarians(state)] : []),
+    scoreDesertClumps(state),
+    scoreHoles(state)
+  ];
+
+  return {
+    total: Math.max(0, breakdown.reduce((sum, rule) => sum + rule.points, 0)),
+    breakdown
+  };
+};
+
+// One score per hotseat player, from the tiles they placed and the lines
+// they completed
+export const scorePlayers = (
+  state: ScoredBoard & Pick<GameState, 'playerCount' | 'playerLinesCleared' | 'playerClearPoints'>
+): IslandScore[] =>
+  Array.from({ length: state.playerCount }, (_, owner) => scoreIsland({
+    hexes: state.hexes,
+    board: state.board,
+    numbers: state.numbers,
+    linesCleared: state.playerLinesCleared[owner],
+    clearPoints: state.playerClearPoints[owner],
+    settlements: state.settlements,
+    longestRoads: state.longestRoads,
+    longestRoadHolder: state.longestRoadHolder,
+    seafarers: state.seafarers,
+    citiesAndKnights: state.citiesAndKnights,
+    barbarianAttacks: state.barbarianAttacks,
+    goldTaken: state.goldTaken,
+    owner
+  }));
@@ -0,0 +1,127 @@
+import type { GameState } from './engine';
+import { Hex, HexCoord, hexKey } from './hex';
+import { getPips } from './numbers';
+
+// ========== INTERSECTIONS ==========
+// Settlements sit on hex corners. Every corner is shared by three hexes (some
+// of them may be off the board), so a corner is identified by those three
+// hexes rather than by a pixel position.
+
+export interface Intersection {
+  key: string;
+  hexes: HexCoord[];
+  // Intersections one road away
+  neighbors: string[];
+}
+
+export interface Settlement {
+  vertex: string;
+  owner: number;
+  isCity: boolean;
+}
+
+// Neighbour directions in order around a hex - consecutive pairs meet at a corner
+const CORNER_DIRECTIONS: HexCoord[] = [
+  { q: 1, r: 0 },
+  { q: 1, r: -1 },
+  { q: 0, r: -1 },
+  { q: -1, r: 0 },
+  { q: -1, r: 1 },
+  { q: 0, r: 1 }
+];
+
+// Settlements placed per player during setup
+export const STARTING_SETTLEMENTS = 2;
+
+export const getVertexKey = (coords: HexCoord[]) =>
+  coords.map(c => hexKey(c.q, c.r)).sort().join('|');
+
+// Inverse of getVertexKey
+export const getVertexHexes = (key: string): HexCoord[] =>
+  key.split('|').map(part => {
+    const [q, r] = part.split(',').map(Number);
+    return { q, r };
+  });
+
+// Every corner of every land hex on the board
+export const getIntersections = (hexes: Hex[]): Intersection[] => {
+  const corners = new Map<string, HexCoord[]>();
+
+  hexes.filter(hex => !hex.isWater).forEach(hex => {
+    CORNER_DIRECTIONS.forEach((a, i) => {
+      const b = CORNER_DIRECTIONS[(i + 1) % CORNER_DIRECTIONS.length];
+      const coords = [
+        { q: hex.q, r: hex.r },
+        { q: hex.q + a.q, r: hex.r + a.r },
+        { q: hex.q + b.q, r: hex.r + b.r }
+      ];
+      corners.set(getVertexKey(coords), coords);
+    });
+  });
+
+  // Two corners are joined by an edge when they share two hexes
+  const byEdge = new Map<string, string[]>();
+  corners.forEach((coords, key) => {
+    for (let i = 0; i < coords.length; i++) {
+      const edge = getVertexKey(coords.filter((_, j) => j !== i));
+      byEdge.set(edge, [...(byEdge.get(edge) ?? []), key]);
+    }
+  });
+
+  return Array.from(corners, ([key, coords]) => {
+    const neighbors = new Set<string>();
+    for (let i = 0; i < coords.length; i++) {
+      const edge = getVertexKey(coords.filter((_, j) => j !== i));
+      byEdge.get(edge)?.forEach(other => other !== key && neighbors.add(other));
+    }
+    return { key, hexes: coords, neighbors: Array.from(neighbors) };
+  });
+};
+
+// ========== PRODUCTION ==========
+// Sum of the dice pips of the numbered hexes around a spot
+export const getVertexPips = (
+  intersection: Intersection,
+  numbers: GameState['numbers']
+): number =>
+  intersection.hexes.reduce((sum, c) => sum + getPips(numbers.get(hexKey(c.q, c.r)) ?? 0), 0);
+
+// ========== SETUP ==========
+// Snake draft - 1, 2, 3, 3, 2, 1 - like the opening of a real game
+export const getSetupOrder = (playerCount: number): number[] => {
+  const forward = Array.from({ length: playerCount }, (_, i) => i);
+  const rounds: number[] = [];
+  for (let round = 0; round < STARTING_SETTLEMENTS; round++) {
+    rounds.push(...(round % 2 === 0 ? forward : [...forward].reverse()));
+  }
+  return rounds;
+};
+
+// Whose settlement is next, or null once setup is over. Each settlement's
+// road has to be built before the next settlement goes down. Spots are shared,
+// so once the island has none left setup ends for everyone.
+export const getSettlementTurn = (
+  state: Pick<GameState, 'hexes' | 'board' | 'playerCount' | 'settlements' | 'roads'>
+): number | null => {
+  if (state.roads.size < state.settlements.size) return null;
+  const turn = getSetupOrder(state.playerCount)[state.settlements.size];
+  if (turn === undefined || getBuildableSpots(state).length === 0) return null;
+  return turn;
+};
+
+// Distance rule - a spot needs a built hex next to it and no settlement on
+// it or on any intersection one edge away
+export const canPlaceSettlement = (
+  state: Pick<GameState, 'board' | 'settlements'>,
+  intersection: Intersection
+): boolean => {
+  const touchesLand = intersection.hexes.some(c => {
+    const terrain = state.board.get(hexKey(c.q, c.r))?.terrain;
+    return terrain !== undefined && terrain !== 'water';
+  });
+  if (!touchesLand || state.settlements.has(intersection.key)) return false;
+  return intersection.neighbors.every(key => !state.settlements.has(key));
+};
+
+export const getBuildableSpots = (state: Pick<GameState, 'hexes' | 'board' | 'settlements'>): Intersection[] =>
+  getIntersections(state.hexes).filter(i => canPlaceSettlement(state, i));
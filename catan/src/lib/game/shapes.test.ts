@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { BoardShapeType, getShapeHexes, getShapeOutline } from './shapes';
+
+// Flat-top layout, as GameBoard draws it
+const toPixel = (q: number, r: number) => ({ x: 1.5 * q, y: (Math.sqrt(3) / 2) * q + Math.sqrt(3) * r });
+
+describe('getShapeHexes', () => {
+  const counts: Array<[BoardShapeType, number[]]> = [
+    ['hexagon', [19, 37, 61]],
+    ['rectangle', [20, 42, 72]],
+    ['ring', [18, 30, 54]],
+    ['triangle', [21, 36, 55]]
+  ];
+
+  it.each(counts)('builds a %s of the expected size at map sizes 2-4', (type, expected) => {
+    expect([2, 3, 4].map(size => getShapeHexes({ type }, size).length)).toEqual(expected);
+  });
+
+  it('builds the 30-hex elongated island in columns of 3-4-5-6-5-4-3', () => {
+    const hexes = getShapeHexes({ type: 'elongated' }, 2);
+    const columns = new Map<number, number>();
+    hexes.forEach(hex => columns.set(hex.q, (columns.get(hex.q) ?? 0) + 1));
+    expect(hexes).toHaveLength(30);
+    expect(Array.from(columns.keys()).sort((a, b) => a - b).map(q => columns.get(q))).toEqual([3, 4, 5, 6, 5, 4, 3]);
+  });
+
+  it('drops repeated hexes from a custom mask', () => {
+    const hexes = getShapeHexes({ type: 'custom', hexes: [{ q: 0, r: 0 }, { q: 1, r: 0 }, { q: 0, r: 0 }] }, 2);
+    expect(hexes).toEqual([{ q: 0, r: 0 }, { q: 1, r: 0 }]);
+  });
+});
+
+describe('getShapeOutline', () => {
+  it('traces one loop around a solid island', () => {
+    const loops = getShapeOutline(getShapeHexes({ type: 'hexagon' }, 2), toPixel, 1, 0);
+    expect(loops).toHaveLength(1);
+    // One corner per coastal edge
+    expect(loops[0]).toHaveLength(30);
+  });
+
+  it('traces the coast and the lake shore of a ring', () => {
+    expect(getShapeOutline(getShapeHexes({ type: 'ring' }, 2), toPixel, 1, 0)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,146 @@
+import type { HexCoord } from './hex';
+
+// ========== BOARD SHAPES ==========
+// The outline of the island. Built-in shapes grow with the mode's map size,
+// a custom shape is a plain list of axial coordinates.
+
+export type BoardShapeType = 'hexagon' | 'elongated' | 'rectangle' | 'ring' | 'triangle';
+
+export type BoardShape =
+  | { type: BoardShapeType }
+  | { type: 'custom'; hexes: HexCoord[] };
+
+export const DEFAULT_SHAPE: BoardShape = { type: 'hexagon' };
+
+export const SHAPE_LABELS: Record<BoardShape['type'], string> = {
+  hexagon: 'Hexagon',
+  elongated: 'Elongated (5-6 players)',
+  rectangle: 'Rectangle',
+  ring: 'Ring',
+  triangle: 'Triangle',
+  custom: 'Custom mask'
+};
+
+const getDistance = (q: number, r: number) => Math.max(Math.abs(q), Math.abs(r), Math.abs(-q - r));
+
+// Every cell of the square [-extent, extent]² that passes the test, column by column
+const collect = (extent: number, include: (q: number, r: number) => boolean): HexCoord[] => {
+  const hexes: HexCoord[] = [];
+  for (let q = -extent; q <= extent; q++) {
+    for (let r = -extent; r <= extent; r++) {
+      if (include(q, r)) hexes.push({ q, r });
+    }
+  }
+  return hexes;
+};
+
+export const getShapeHexes = (shape: BoardShape, size: number): HexCoord[] => {
+  switch (shape.type) {
+    case 'hexagon':
+      return collect(size, (q, r) => getDistance(q, r) <= size);
+
+    // Columns of size+1 up to 2·size+2 and back down - 3-4-5-6-5-4-3 at size 2
+    case 'elongated':
+      return collect(size + 1, (q, r) => r <= size && -q - r >= -size && -q - r <= size + 1);
+
+    // 2·size+1 columns of 2·size hexes, odd columns sitting half a hex lower
+    case 'rectangle':
+      return collect(2 * size, (q, r) => {
+        const row = r + Math.floor(q / 2);
+        return Math.abs(q) <= size && row >= -size && row < size;
+      });
+
+    // A hexagon with a lake in the middle
+    case 'ring':
+      return collect(size, (q, r) => getDistance(q, r) <= size && getDistance(q, r) >= Math.ceil(size / 2));
+
+    // Side of 2·size+2, shifted so its middle sits near the centre hex
+    case 'triangle': {
+      const side = 2 * size + 2;
+      const offset = Math.floor(side / 3);
+      return collect(side, (q, r) => q >= -offset && r >= -offset && q + r + 2 * offset < side);
+    }
+
+    case 'custom': {
+      const seen = new Set<string>();
+      return shape.hexes.filter(hex => {
+        const key = `${hex.q},${hex.r}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+  }
+};
+
+// ========== OUTLINE ==========
+// Traces the hex edges around the shape, pushed `padding` pixels outwards,
+// for the board frame. A ring gives two loops - the coast and the lake shore.
+
+type Point = { x: number; y: number };
+
+export const getShapeOutline = (
+  hexes: HexCoord[],
+  toPixel: (q: number, r: number) => Point,
+  hexSize: number,
+  padding: number
+): Point[][] => {
+  const keys = new Set(hexes.map(hex => `${hex.q},${hex.r}`));
+  const pointKey = (p: Point) => `${Math.round(p.x * 100)},${Math.round(p.y * 100)}`;
+  const corner = (center: Point, angle: number): Point => ({
+    x: center.x + hexSize * Math.cos((angle * Math.PI) / 180),
+    y: center.y + hexSize * Math.sin((angle * Math.PI) / 180)
+  });
+
+  // Edges facing off the shape, each running clockwise around its own hex
+  const edges: Array<{ from: Point; to: Point; center: Point }> = [];
+  hexes.forEach(hex => {
+    const center = toPixel(hex.q, hex.r);
+    [[1, 0], [0, 1], [-1, 1], [-1, 0], [0, -1], [1, -1]].forEach(([dq, dr]) => {
+      if (keys.has(`${hex.q + dq},${hex.r + dr}`)) return;
+      const neighbour = toPixel(hex.q + dq, hex.r + dr);
+      const angle = (Math.atan2(neighbour.y - center.y, neighbour.x - center.x) * 180) / Math.PI;
+      edges.push({ from: corner(center, angle - 30), to: corner(center, angle + 30), center });
+    });
+  });
+
+  // Corners move away from the shape hexes they belong to
+  const owners = new Map<string, Point[]>();
+  edges.forEach(edge => [edge.from, edge.to].forEach(p => {
+    owners.set(pointKey(p), [...(owners.get(pointKey(p)) ?? []), edge.center]);
+  }));
+  const pad = (p: Point): Point => {
+    const centers = owners.get(pointKey(p))!;
+    const cx = centers.reduce((sum, c) => sum + c.x, 0) / centers.length;
+    const cy = centers.reduce((sum, c) => sum + c.y, 0) / centers.length;
+    const length = Math.hypot(p.x - cx, p.y - cy) || 1;
+    return { x: p.x + ((p.x - cx) / length) * padding, y: p.y + ((p.y - cy) / length) * padding };
+  };
+
+  const byStart = new Map<string, typeof edges>();
+  edges.forEach(edge => byStart.set(pointKey(edge.from), [...(byStart.get(pointKey(edge.from)) ?? []), edge]));
+  const used = new Set<(typeof edges)[number]>();
+  const loops: Point[][] = [];
+  edges.forEach(start => {
+    if (used.has(start)) return;
+    const loop: Point[] = [];
+    let edge: (typeof edges)[number] | undefined = start;
+    while (edge && !used.has(edge)) {
+      used.add(edge);
+      loop.push(pad(edge.from));
+      edge = byStart.get(pointKey(edge.to))?.find(next => !used.has(next));
+    }
+    loops.push(loop);
+  });
+  return loops;
+};
+
+export const getShapeBounds = (hexes: HexCoord[], toPixel: (q: number, r: number) => Point, hexSize: number) => {
+  const points = hexes.map(hex => toPixel(hex.q, hex.r));
+  return {
+    minX: Math.min(...points.map(p => p.x)) - hexSize,
+    maxX: Math.max(...points.map(p => p.x)) + hexSize,
+    minY: Math.min(...points.map(p => p.y)) - hexSize,
+    maxY: Math.max(...points.map(p => p.y)) + hexSize
+  };
+};